@@ -0,0 +1,424 @@
+import * as THREE from 'three/webgpu';
+import { PixelArtCamera, PixelArtRenderer, getCameraAspect, setCameraAspect } from './pixel-art.js';
+
+// ============================================================================
+// CONSTANTS & INTERFACES
+// ============================================================================
+
+export interface FrameCaptureHooks {
+  render: () => void; // draws one frame with the current renderer size and camera
+  // Advances physics, fog and animation by a fixed amount; `time` is the simulated
+  // clock after the step, counted from the sequence's startTime
+  step?: (deltaTime: number, time: number) => void;
+  pixelArt?: PixelArtRenderer | null;
+}
+
+export interface StillCaptureOptions {
+  width?: number; // output size, defaults to the canvas's displayed size
+  height?: number;
+  supersample?: number; // render at this multiple of the output size, then downsample
+  pixelArt?: boolean; // keep the pixel-art look instead of rendering at full detail
+}
+
+export interface SequenceCaptureOptions extends StillCaptureOptions {
+  fps?: number; // frames per second of simulated time
+  frames?: number; // number of frames, takes precedence over duration
+  duration?: number; // seconds of simulated time
+  startTime?: number; // simulated clock before the first frame, 0 by default
+  onProgress?: (frame: number, frames: number) => void;
+}
+
+export interface PngSequenceOptions extends SequenceCaptureOptions {
+  onFrame?: (blob: Blob, frame: number) => void; // stream frames out instead of keeping them
+}
+
+export interface WebmCaptureOptions extends SequenceCaptureOptions {
+  bitrate?: number; // bits per second
+}
+
+// Largest render size; browsers cap textures around this on most GPUs
+const MAX_CAPTURE_DIMENSION = 8192;
+
+// VP9 profile 0, level 1.0, 8 bit
+const WEBM_VP9_CODEC = 'vp09.00.10.08';
+// Seconds between keyframes, also the length of a WebM cluster
+const WEBM_KEYFRAME_INTERVAL = 2;
+
+// An encoded frame waiting to be muxed, timestamp in microseconds
+interface WebmFrame {
+  data: Uint8Array;
+  timestamp: number;
+  key: boolean;
+}
+
+// State changed for the duration of a capture, see beginCapture
+interface CaptureState {
+  width: number;
+  height: number;
+  keepPixelArt: boolean;
+  pixelArtEnabled: boolean;
+  pixelRatio: number;
+  size: THREE.Vector2;
+  aspect: number;
+  output: HTMLCanvasElement;
+}
+
+// ============================================================================
+// FRAME CAPTURE
+// ============================================================================
+
+/**
+ * Renders stills and fixed-timestep frame sequences at any resolution. Stills
+ * are supersampled and bypass the pixel-art virtual size unless asked to keep
+ * it. Sequences call `step` with 1 / fps before each frame instead of reading
+ * the wall clock, so a capture plays back the same way every time; the app's
+ * own loop should skip its updates while `isCapturing()` is true.
+ */
+export class FrameCapture {
+  private renderer: THREE.WebGPURenderer;
+  private camera: PixelArtCamera;
+  private hooks: FrameCaptureHooks;
+  private capturing = false;
+
+  constructor(renderer: THREE.WebGPURenderer, camera: PixelArtCamera, hooks: FrameCaptureHooks) {
+    this.renderer = renderer;
+    this.camera = camera;
+    this.hooks = hooks;
+  }
+
+  public isCapturing(): boolean { return this.capturing; }
+
+  public async captureStill(options: StillCaptureOptions = {}): Promise<Blob> {
+    const state = this.beginCapture(options);
+    try {
+      this.renderFrame(state);
+      return await toPngBlob(state.output);
+    } finally {
+      this.endCapture(state);
+    }
+  }
+
+  public async recordPngSequence(options: PngSequenceOptions = {}): Promise<Blob[]> {
+    const frames: Blob[] = [];
+    await this.runSequence(options, async (state, frame) => {
+      const blob = await toPngBlob(state.output);
+      if (options.onFrame) options.onFrame(blob, frame);
+      else frames.push(blob);
+    });
+    return frames;
+  }
+
+  // Encodes with WebCodecs where available, so every frame gets its exact
+  // fixed-step timestamp however long it took to render
+  public async recordWebm(options: WebmCaptureOptions = {}): Promise<Blob> {
+    if (typeof VideoEncoder === 'undefined') return this.recordWebmRealtime(options);
+
+    const fps = options.fps ?? 30;
+    const { width, height } = this.getOutputSize(options);
+    const config: VideoEncoderConfig = { codec: WEBM_VP9_CODEC, width, height, bitrate: options.bitrate ?? 16_000_000, framerate: fps };
+    if (!(await VideoEncoder.isConfigSupported(config)).supported) return this.recordWebmRealtime(options);
+
+    const chunks: WebmFrame[] = [];
+    let encodeError: unknown = null;
+    const encoder = new VideoEncoder({
+      output: chunk => {
+        const data = new Uint8Array(chunk.byteLength);
+        chunk.copyTo(data);
+        chunks.push({ data, timestamp: chunk.timestamp, key: chunk.type === 'key' });
+      },
+      error: error => { encodeError = error; }
+    });
+    encoder.configure(config);
+
+    try {
+      await this.runSequence(options, async (state, frame) => {
+        if (encodeError) throw encodeError;
+        const videoFrame = new VideoFrame(state.output, {
+          timestamp: Math.round(frame * 1e6 / fps),
+          duration: Math.round(1e6 / fps)
+        });
+        encoder.encode(videoFrame, { keyFrame: frame % Math.round(fps * WEBM_KEYFRAME_INTERVAL) === 0 });
+        videoFrame.close();
+        // Keep the encoder from falling far behind the render loop
+        while (encoder.encodeQueueSize > 4) await new Promise(resolve => setTimeout(resolve, 1));
+      });
+      await encoder.flush();
+    } finally {
+      if (encoder.state !== 'closed') encoder.close();
+    }
+    if (encodeError) throw encodeError;
+
+    return muxWebm(chunks, width, height, chunks.length * 1000 / fps);
+  }
+
+  // Fallback without WebCodecs: MediaRecorder timestamps frames by wall clock,
+  // so each frame is held until its slot on a fixed schedule. Frames slower
+  // than 1 / fps still show late, but the video keeps its overall length.
+  private async recordWebmRealtime(options: WebmCaptureOptions): Promise<Blob> {
+    const fps = options.fps ?? 30;
+    let recorder: MediaRecorder | null = null;
+    let track: CanvasCaptureMediaStreamTrack | null = null;
+    let start = 0;
+    const chunks: Blob[] = [];
+
+    await this.runSequence(options, async (state, frame) => {
+      if (!recorder) {
+        const stream = state.output.captureStream(0);
+        track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+        const mimeType = MediaRecorder.isTypeSupported('video/webm;codecs=vp9') ? 'video/webm;codecs=vp9' : 'video/webm';
+        recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: options.bitrate ?? 16_000_000 });
+        recorder.ondataavailable = event => { if (event.data.size) chunks.push(event.data); };
+        recorder.start();
+        start = performance.now();
+      }
+      track!.requestFrame();
+      const wait = start + (frame + 1) * 1000 / fps - performance.now();
+      if (wait > 0) await new Promise(resolve => setTimeout(resolve, wait));
+    });
+
+    if (!recorder) return new Blob([], { type: 'video/webm' });
+    const finished = recorder as MediaRecorder;
+    await new Promise(resolve => {
+      finished.onstop = resolve;
+      finished.stop();
+    });
+    return new Blob(chunks, { type: finished.mimeType });
+  }
+
+  private async runSequence(
+    options: SequenceCaptureOptions,
+    onFrame: (state: CaptureState, frame: number) => Promise<void>
+  ): Promise<void> {
+    const fps = options.fps ?? 30;
+    const frames = Math.max(1, Math.round(options.frames ?? (options.duration ?? 5) * fps));
+    const startTime = options.startTime ?? 0;
+
+    const state = this.beginCapture(options);
+    try {
+      for (let frame = 0; frame < frames; frame++) {
+        this.hooks.step?.(1 / fps, startTime + (frame + 1) / fps);
+        this.renderFrame(state);
+        await onFrame(state, frame);
+        options.onProgress?.(frame + 1, frames);
+      }
+    } finally {
+      this.endCapture(state);
+    }
+  }
+
+  private getOutputSize(options: StillCaptureOptions): { width: number; height: number } {
+    const canvas = this.renderer.domElement;
+    return {
+      width: Math.max(1, Math.round(options.width ?? (canvas.clientWidth || canvas.width))),
+      height: Math.max(1, Math.round(options.height ?? (canvas.clientHeight || canvas.height)))
+    };
+  }
+
+  private beginCapture(options: StillCaptureOptions): CaptureState {
+    if (this.capturing) throw new Error('A capture is already running');
+
+    const { width, height } = this.getOutputSize(options);
+    const pixelArt = this.hooks.pixelArt ?? null;
+
+    const output = document.createElement('canvas');
+    output.width = width;
+    output.height = height;
+
+    const pixelArtEnabled = pixelArt?.isEnabled() ?? false;
+    const keepPixelArt = Boolean(options.pixelArt && pixelArtEnabled);
+    // Turned off first so the sizes saved below are the renderer's own
+    if (!keepPixelArt) pixelArt?.setEnabled(false);
+
+    const state: CaptureState = {
+      width,
+      height,
+      keepPixelArt,
+      pixelArtEnabled,
+      pixelRatio: this.renderer.getPixelRatio(),
+      size: this.renderer.getSize(new THREE.Vector2()),
+      aspect: getCameraAspect(this.camera),
+      output
+    };
+    this.capturing = true;
+
+    if (!keepPixelArt) {
+      // Scale down the supersampling factor rather than exceed the texture limit
+      const supersample = Math.min(Math.max(1, options.supersample ?? 2), MAX_CAPTURE_DIMENSION / Math.max(width, height));
+      this.renderer.setPixelRatio(1);
+      this.renderer.setSize(Math.floor(width * supersample), Math.floor(height * supersample), false);
+      setCameraAspect(this.camera, width / height);
+    }
+
+    return state;
+  }
+
+  private endCapture(state: CaptureState): void {
+    if (!state.keepPixelArt) {
+      this.renderer.setPixelRatio(state.pixelRatio);
+      this.renderer.setSize(state.size.x, state.size.y, false);
+      setCameraAspect(this.camera, state.aspect);
+      if (state.pixelArtEnabled) this.hooks.pixelArt?.setEnabled(true);
+    }
+    this.capturing = false;
+  }
+
+  // Renders and copies the canvas into the output right away, before the
+  // browser presents (and may discard) the WebGPU canvas contents
+  private renderFrame(state: CaptureState): void {
+    const pixelArt = this.hooks.pixelArt;
+    if (state.keepPixelArt) pixelArt!.preRender();
+    this.hooks.render();
+    if (state.keepPixelArt) pixelArt!.postRender();
+
+    const context = state.output.getContext('2d')!;
+    // Box-filter the supersampled frame, but keep pixel art blocky
+    context.imageSmoothingEnabled = !state.keepPixelArt;
+    context.imageSmoothingQuality = 'high';
+    context.clearRect(0, 0, state.width, state.height);
+    context.drawImage(this.renderer.domElement, 0, 0, state.width, state.height);
+  }
+}
+
+function toPngBlob(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('PNG encoding failed')), 'image/png');
+  });
+}
+
+// ============================================================================
+// WEBM MUXING
+// ============================================================================
+
+// EBML element IDs used by a minimal single-track WebM file
+const EBML_IDS = {
+  ebml: 0x1a45dfa3,
+  ebmlVersion: 0x4286,
+  ebmlReadVersion: 0x42f7,
+  ebmlMaxIdLength: 0x42f2,
+  ebmlMaxSizeLength: 0x42f3,
+  docType: 0x4282,
+  docTypeVersion: 0x4287,
+  docTypeReadVersion: 0x4285,
+  segment: 0x18538067,
+  info: 0x1549a966,
+  timestampScale: 0x2ad7b1,
+  duration: 0x4489,
+  muxingApp: 0x4d80,
+  writingApp: 0x5741,
+  tracks: 0x1654ae6b,
+  trackEntry: 0xae,
+  trackNumber: 0xd7,
+  trackUid: 0x73c5,
+  trackType: 0x83,
+  codecId: 0x86,
+  video: 0xe0,
+  pixelWidth: 0xb0,
+  pixelHeight: 0xba,
+  cluster: 0x1f43b675,
+  timestamp: 0xe7,
+  simpleBlock: 0xa3
+};
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+// Big-endian unsigned integer in as few bytes as it takes
+function uintBytes(value: number, minLength = 1): Uint8Array {
+  let length = minLength;
+  while (length < 8 && value >= 2 ** (8 * length)) length++;
+  const bytes = new Uint8Array(length);
+  for (let i = length - 1; i >= 0; i--) {
+    bytes[i] = value % 256;
+    value = Math.floor(value / 256);
+  }
+  return bytes;
+}
+
+// Element sizes are variable-length integers with a length marker bit
+function sizeBytes(size: number): Uint8Array {
+  let length = 1;
+  while (length < 8 && size >= 2 ** (7 * length) - 1) length++;
+  const bytes = uintBytes(size, length);
+  bytes[0] |= 0x80 >> (length - 1);
+  return bytes;
+}
+
+function element(id: number, payload: Uint8Array | Uint8Array[]): Uint8Array {
+  const body = Array.isArray(payload) ? concatBytes(payload) : payload;
+  return concatBytes([uintBytes(id), sizeBytes(body.length), body]);
+}
+
+const uintElement = (id: number, value: number) => element(id, uintBytes(value));
+const stringElement = (id: number, value: string) => element(id, new TextEncoder().encode(value));
+
+function floatElement(id: number, value: number): Uint8Array {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setFloat64(0, value);
+  return element(id, bytes);
+}
+
+// Track 1, a timestamp relative to the cluster in ms, then the frame itself
+function simpleBlock(frame: WebmFrame, clusterTime: number): Uint8Array {
+  const header = new Uint8Array(4);
+  const view = new DataView(header.buffer);
+  view.setUint8(0, 0x81);
+  view.setInt16(1, Math.round(frame.timestamp / 1000) - clusterTime);
+  view.setUint8(3, frame.key ? 0x80 : 0);
+  return element(EBML_IDS.simpleBlock, [header, frame.data]);
+}
+
+// Writes VP9 frames into a WebM file with one cluster per keyframe. Block
+// timestamps are 16-bit, so a cluster is also cut before it spans 30 s.
+function muxWebm(frames: WebmFrame[], width: number, height: number, durationMs: number): Blob {
+  const ids = EBML_IDS;
+  const header = element(ids.ebml, [
+    uintElement(ids.ebmlVersion, 1),
+    uintElement(ids.ebmlReadVersion, 1),
+    uintElement(ids.ebmlMaxIdLength, 4),
+    uintElement(ids.ebmlMaxSizeLength, 8),
+    stringElement(ids.docType, 'webm'),
+    uintElement(ids.docTypeVersion, 2),
+    uintElement(ids.docTypeReadVersion, 2)
+  ]);
+
+  const info = element(ids.info, [
+    uintElement(ids.timestampScale, 1_000_000), // timestamps in ms
+    floatElement(ids.duration, durationMs),
+    stringElement(ids.muxingApp, 'godrays-capture'),
+    stringElement(ids.writingApp, 'godrays-capture')
+  ]);
+
+  const tracks = element(ids.tracks, element(ids.trackEntry, [
+    uintElement(ids.trackNumber, 1),
+    uintElement(ids.trackUid, 1),
+    uintElement(ids.trackType, 1), // video
+    stringElement(ids.codecId, 'V_VP9'),
+    element(ids.video, [uintElement(ids.pixelWidth, width), uintElement(ids.pixelHeight, height)])
+  ]));
+
+  const clusters: Uint8Array[] = [];
+  let blocks: Uint8Array[] = [];
+  let clusterTime = 0;
+  const closeCluster = () => {
+    if (blocks.length) clusters.push(element(ids.cluster, [uintElement(ids.timestamp, clusterTime), ...blocks]));
+    blocks = [];
+  };
+  for (const frame of frames) {
+    const time = Math.round(frame.timestamp / 1000);
+    if (!blocks.length || frame.key || time - clusterTime > 30_000) {
+      closeCluster();
+      clusterTime = time;
+    }
+    blocks.push(simpleBlock(frame, clusterTime));
+  }
+  closeCluster();
+
+  return new Blob([header, element(ids.segment, [info, tracks, ...clusters])], { type: 'video/webm' });
+}
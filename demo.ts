@@ -2,9 +2,45 @@ import * as THREE from 'three/webgpu';
 import { GUI } from 'lil-gui';
 import Stats from 'stats.js';
 import { GLTFLoader } from 'three/addons/loaders/GLTFLoader.js';
-import { FPSController, createGround, setupLights } from './world.js';
-import { setupVolumetricLighting, animateVolumetricLights, VolumetricLightingSystem } from './volumetric-lighting.js';
-import { PixelArtRenderer } from './pixel-art.js';
+import { FPSController, FPSMovementMode, FPS_MOVEMENT_MODES, createGround, setupLights } from './world.js';
+import {
+  setupVolumetricLighting,
+  animateVolumetricLights,
+  setVolumetricNoise,
+  setVolumetricDenoiseMode,
+  applyVolumetricQuality,
+  addVolumetricSunLight,
+  setVolumetricLightCookie,
+  setVolumetricDebugMode,
+  setVolumetricBoundsVisible,
+  setFogPaused,
+  advanceFogTime,
+  setVolumetricRenderSize,
+  VolumetricLightingSystem,
+  VolumetricQualityTier,
+  VolumetricDebugMode,
+  VOLUME_SHAPES,
+  VOLUMETRIC_DEBUG_MODES,
+  VOLUMETRIC_DENOISE_MODES,
+  VOLUMETRIC_QUALITY_TIER_NAMES
+} from './volumetric-lighting.js';
+import { AdaptiveQualityController } from './volumetric-quality.js';
+import { DEFAULT_NOISE_OPTIONS } from './volumetric-noise.js';
+import { createStainedGlassCookie } from './volumetric-cookies.js';
+import { exportPreset, applyPreset, parsePreset } from './volumetric-presets.js';
+import { LightTimeline, TIMELINE_LOOP_MODES } from './volumetric-timeline.js';
+import { TimeOfDayController } from './volumetric-time-of-day.js';
+import { FrameCapture } from './capture.js';
+import {
+  PixelArtRenderer,
+  PixelArtPaletteName,
+  PixelArtDither,
+  PixelArtScaleMode,
+  PixelArtUpscaleMode,
+  PIXEL_ART_PALETTES,
+  PIXEL_ART_SCALE_MODES,
+  PIXEL_ART_UPSCALE_MODES
+} from './pixel-art.js';
 // @ts-ignore
 import RAPIER from '@dimforge/rapier3d-compat';
 
@@ -23,7 +59,14 @@ const CONFIG = {
     spotPosition: { x: 59.5, y: 150, z: 100 },
     spotAngle: 0.1,
     spotColor: 0xffeac7,
-    volumeHeight: 40
+    useSun: false, // directional sun with cascaded shadows instead of the distant spotlight
+    sunIntensity: 4,
+    stainedGlass: false, // project a stained-glass cookie through the spotlight
+    stainedGlassSeed: 7,
+    volumeHeight: 40,
+    volumeEdgeSoftness: 4,
+    volumeHeightFalloff: 0.03,
+    anisotropy: 0.4 // forward scattering glow when looking toward the windows
   }
 };
 
@@ -71,6 +114,10 @@ let accumulator = 0;
 const fixedStep = 1 / 60;
 const maxAccum = 0.25;
 let pixelArt: PixelArtRenderer | null = null;
+let adaptiveQuality: AdaptiveQualityController | null = null;
+let lightTimeline: LightTimeline | null = null;
+let timeOfDay: TimeOfDayController | null = null;
+let frameCapture: FrameCapture | null = null;
 
 async function init() {
   await renderer.init();
@@ -83,6 +130,7 @@ async function init() {
   await loadCathedral();
   initVolumetricLighting();
   initPixelArt();
+  initCapture();
   
   window.addEventListener('resize', onWindowResize);
   setupGUI();
@@ -131,12 +179,58 @@ function setupController() {
 
 function initPixelArt() {
   pixelArt = new PixelArtRenderer(renderer, camera, {
+    scene,
     virtualHeight: 180,
     anchorDistance: 10,
-    enabled: true
+    enabled: true,
+    // GPU upscale keeps the canvas at full size, the passes still render low-res
+    onRenderSize: size => { if (volumetricSystem) setVolumetricRenderSize(volumetricSystem, size); }
   });
 }
 
+// Captures step everything by a fixed amount per frame instead of the wall clock
+function initCapture() {
+  frameCapture = new FrameCapture(renderer, camera, {
+    pixelArt,
+    render: () => {
+      if (volumetricSystem?.postProcessing) volumetricSystem.postProcessing.render();
+      else renderer.render(scene, camera);
+    },
+    step: (deltaTime: number, time: number) => {
+      stepPhysics(deltaTime);
+      if (!volumetricSystem) return;
+      animateVolumetricLights(volumetricSystem, time);
+      lightTimeline?.update(deltaTime, time);
+      timeOfDay?.update(deltaTime, time);
+      advanceFogTime(volumetricSystem, deltaTime);
+    }
+  });
+}
+
+// Fog normally advances with the renderer's clock; hold it for the capture.
+// A drag shortly before would be timed on the wall clock, so it ends here.
+async function runCapture<T>(capture: (frameCapture: FrameCapture) => Promise<T>): Promise<T | null> {
+  if (!frameCapture || frameCapture.isCapturing()) return null;
+  const fogPaused = volumetricSystem?.fogControl?.paused ?? false;
+  if (volumetricSystem) setFogPaused(volumetricSystem, true);
+  if (volumetricSystem?.animationControl) volumetricSystem.animationControl.manualOverride = false;
+  // Leftover wall-clock time would add physics steps to the first frame
+  accumulator = 0;
+  try {
+    return await capture(frameCapture);
+  } finally {
+    if (volumetricSystem) setFogPaused(volumetricSystem, fogPaused);
+  }
+}
+
+function downloadBlob(blob: Blob, filename: string) {
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(link.href));
+}
+
 async function loadCathedral() {
   const loader = new GLTFLoader();
   try {
@@ -152,9 +246,55 @@ function initVolumetricLighting() {
   volumetricSystem = setupVolumetricLighting(scene, camera, renderer, CONFIG.terrainSize);
   if (volumetricSystem) {
     configureCathedralGodrays();
+    adaptiveQuality = new AdaptiveQualityController(volumetricSystem, { targetFps: 60, enabled: false });
+    lightTimeline = createGodrayTimeline(volumetricSystem);
+    timeOfDay = new TimeOfDayController(volumetricSystem, renderer, {
+      enabled: false,
+      target: { x: 0, y: 5, z: 0 },
+      distance: 150,
+      maxIntensity: CONFIG.lighting.spotIntensity
+    });
   }
 }
 
+function createGodrayTimeline(system: VolumetricLightingSystem): LightTimeline {
+  const timeline = new LightTimeline(system, { loop: 'pingpong' });
+  if (system.spotLight) setGodrayTracks(timeline, system.spotLight);
+  return timeline;
+}
+
+// Slow sweep of the sun shaft across the windows, warming towards the middle
+function setGodrayTracks(timeline: LightTimeline, spotLight: THREE.SpotLight) {
+  const { spotPosition, spotIntensity, spotColor } = CONFIG.lighting;
+  timeline.setTracks(spotLight, {
+    position: [
+      { time: 0, value: { x: spotPosition.x - 20, y: spotPosition.y, z: spotPosition.z }, easing: 'easeInOut' },
+      { time: 30, value: { x: spotPosition.x + 20, y: spotPosition.y - 20, z: spotPosition.z } }
+    ],
+    intensity: [
+      { time: 0, value: spotIntensity * 0.6, easing: 'easeOut' },
+      { time: 15, value: spotIntensity, easing: 'easeIn' },
+      { time: 30, value: spotIntensity * 0.6 }
+    ],
+    color: [
+      { time: 0, value: spotColor },
+      { time: 15, value: 0xffc98a },
+      { time: 30, value: spotColor }
+    ]
+  });
+}
+
+// Loading a preset can replace the spotlight; hand its animation and cookie on
+function rebindGodrayLight(previous: THREE.SpotLight | null) {
+  const spotLight = volumetricSystem?.spotLight ?? null;
+  if (!volumetricSystem || spotLight === previous) return;
+  
+  if (previous) lightTimeline?.removeTracks(previous);
+  if (spotLight && lightTimeline) setGodrayTracks(lightTimeline, spotLight);
+  if (spotLight && previous?.map) setVolumetricLightCookie(volumetricSystem, spotLight, previous.map);
+  timeOfDay?.setLight(spotLight);
+}
+
 function cleanupCathedral() {
   if (!cathedralGroup) return;
   
@@ -307,15 +447,35 @@ function configureCathedralGodrays() {
     // Configure shadow camera for cathedral shadows
     spotLight.shadow.camera.far = 200;
     spotLight.shadow.camera.near = 1;
-    spotLight.shadow.mapSize.width = 4096;
-    spotLight.shadow.mapSize.height = 4096;
     spotLight.shadow.camera.updateProjectionMatrix();
+    spotLight.visible = !CONFIG.lighting.useSun;
+    
+    if (CONFIG.lighting.stainedGlass) {
+      setVolumetricLightCookie(volumetricSystem, spotLight, createStainedGlassCookie({ seed: CONFIG.lighting.stainedGlassSeed }));
+    }
   }
   
+  // Sun shines from the spotlight's position so both modes light the same windows
+  const { spotPosition, spotColor, sunIntensity, useSun } = CONFIG.lighting;
+  const sunLight = addVolumetricSunLight(volumetricSystem, scene, {
+    color: spotColor,
+    intensity: sunIntensity,
+    direction: { x: -spotPosition.x, y: 5 - spotPosition.y, z: -spotPosition.z },
+    target: { x: 0, y: 5, z: 0 },
+    distance: 150
+  });
+  if (sunLight) sunLight.visible = useSun;
+  
+  // Steps, volumetric resolution and shadow map size
+  applyVolumetricQuality(volumetricSystem, 'high');
+  
   // Configure fog
   if (uniforms) {
     uniforms.smokeAmount.value = 0;
     uniforms.volumetricLightingIntensity.value = 2;
+    uniforms.edgeSoftness.value = CONFIG.lighting.volumeEdgeSoftness;
+    uniforms.anisotropy.value = CONFIG.lighting.anisotropy;
+    uniforms.heightFalloff.value = CONFIG.lighting.volumeHeightFalloff;
   }
   
   // Ensure volumetric mesh is visible
@@ -348,6 +508,16 @@ function setupGUI() {
       rayExtra: (fpsController as any).getGroundRayExtraDistance ? (fpsController as any).getGroundRayExtraDistance() : 0.2,
       groundedTolerance: (fpsController as any).getGroundedTolerance ? (fpsController as any).getGroundedTolerance() : 0.08,
       debugCapsule: false,
+      gamepadDeadzone: fpsController.getGamepadDeadzone(),
+      gamepadLookSensitivity: fpsController.getGamepadLookSensitivity(),
+      gamepadLookCurve: fpsController.getGamepadLookCurve(),
+      touchControls: fpsController.isTouchControlsEnabled(),
+      touchLookSensitivity: fpsController.getTouchLookSensitivity(),
+      touchJoystickRadius: fpsController.getTouchJoystickRadius(),
+      movementMode: fpsController.getMovementMode(),
+      maxSlopeAngle: fpsController.getMaxSlopeAngle(),
+      autostepHeight: fpsController.getAutostepHeight(),
+      snapToGround: fpsController.getSnapToGroundDistance(),
       toggleFly: () => (fpsController as any).setFlyMode(!(fpsController as any).isFlyModeEnabled?.())
     };
     const fCtrl = gui.addFolder('Controller');
@@ -361,9 +531,54 @@ function setupGUI() {
     fCtrl.add(ctrlParams, 'invertY').onChange((v: boolean) => (fpsController as any).setInvertY(v));
     fCtrl.add(ctrlParams, 'rayExtra', 0, 0.6, 0.01).name('Ground Ray Extra').onChange((v: number) => (fpsController as any).setGroundRayExtraDistance(v));
     fCtrl.add(ctrlParams, 'groundedTolerance', 0.01, 0.3, 0.005).name('Ground Tolerance').onChange((v: number) => (fpsController as any).setGroundedTolerance(v));
+    fCtrl.add(ctrlParams, 'gamepadDeadzone', 0, 0.5, 0.01).name('Gamepad Deadzone').onChange((v: number) => fpsController.setGamepadDeadzone(v));
+    fCtrl.add(ctrlParams, 'gamepadLookSensitivity', 0.5, 8, 0.1).name('Gamepad Look Speed').onChange((v: number) => fpsController.setGamepadLookSensitivity(v));
+    fCtrl.add(ctrlParams, 'gamepadLookCurve', 1, 4, 0.1).name('Gamepad Look Curve').onChange((v: number) => fpsController.setGamepadLookCurve(v));
+    fCtrl.add(ctrlParams, 'touchControls').name('Touch Controls').onChange((v: boolean) => fpsController.setTouchControlsEnabled(v));
+    fCtrl.add(ctrlParams, 'touchLookSensitivity', 0.001, 0.02, 0.0005).name('Touch Look Speed').onChange((v: number) => fpsController.setTouchLookSensitivity(v));
+    fCtrl.add(ctrlParams, 'touchJoystickRadius', 30, 150, 1).name('Joystick Radius').onChange((v: number) => fpsController.setTouchJoystickRadius(v));
+    fCtrl.add(ctrlParams, 'movementMode', FPS_MOVEMENT_MODES).name('Movement Mode').onChange((v: FPSMovementMode) => fpsController.setMovementMode(v));
+    fCtrl.add(ctrlParams, 'maxSlopeAngle', 0, 89, 1).name('Max Slope (deg)').onChange((v: number) => fpsController.setMaxSlopeAngle(v));
+    fCtrl.add(ctrlParams, 'autostepHeight', 0, 1, 0.01).name('Step Height').onChange((v: number) => fpsController.setAutostepHeight(v));
+    fCtrl.add(ctrlParams, 'snapToGround', 0, 1, 0.01).name('Snap To Ground').onChange((v: number) => fpsController.setSnapToGroundDistance(v));
     fCtrl.add(ctrlParams, 'toggleFly').name('Toggle Fly (F)');
   }
 
+  // Key bindings: clicking an action waits for a key and makes it the primary binding
+  if (fpsController) {
+    const input = fpsController.input;
+    const bindingsFolder = gui.addFolder('Key Bindings');
+    const describe = (action: string) => `${input.getLabel(action)}: ${input.getBindings(action).join(', ') || 'unbound'}`;
+    const bindingButtons: Record<string, () => void> = {};
+    const bindingControllers = new Map<string, any>();
+    const bindingStatus = { message: '' };
+    const refreshBindings = () => bindingControllers.forEach((controller, action) => controller.name(describe(action)));
+    let pendingCapture: object | null = null; // the latest click, so a cancelled one doesn't relabel its row
+    for (const action of input.getActions()) {
+      bindingButtons[action] = async () => {
+        const capture = pendingCapture = {};
+        refreshBindings();
+        bindingControllers.get(action)?.name(`${input.getLabel(action)}: press a key (Esc cancels)`);
+        const code = await input.captureNextKey();
+        if (pendingCapture !== capture) return;
+        pendingCapture = null;
+
+        if (code) {
+          const others = input.getBindings(action).slice(1).filter(existing => existing !== code);
+          const conflicts = input.setBindings(action, [code, ...others]);
+          bindingStatus.message = conflicts.map(conflict =>
+            `${conflict.code} is also bound to ${conflict.actions.filter(other => other !== action).map(other => input.getLabel(other)).join(', ')}`
+          ).join('; ');
+        }
+        refreshBindings();
+      };
+      bindingControllers.set(action, bindingsFolder.add(bindingButtons, action).name(describe(action)));
+    }
+    bindingsFolder.add({ reset: () => { input.resetBindings(); bindingStatus.message = ''; refreshBindings(); } }, 'reset').name('Reset Bindings');
+    bindingsFolder.add(bindingStatus, 'message').name('Conflicts').listen().disable();
+    bindingsFolder.close();
+  }
+
   // Physics folder: gravity controls
   if (physics?.world) {
     const g = physics.world.gravity;
@@ -387,42 +602,327 @@ function setupGUI() {
 
   if (!volumetricSystem?.uniforms || !volumetricSystem.spotLight) return;
   
-  const { uniforms, spotLight } = volumetricSystem;
+  const { uniforms } = volumetricSystem;
   const godrayFolder = gui.addFolder('Godray Controls');
   
   godrayFolder.add(uniforms.volumetricLightingIntensity, 'value', 0, 5, 0.1).name('Fog Density');
   godrayFolder.add(uniforms.smokeAmount, 'value', 0, 3, 0.1).name('Smoke');
+  const denoiseSettings = { mode: volumetricSystem.denoiseMode ?? 'blur' };
+  godrayFolder.add(denoiseSettings, 'mode', VOLUMETRIC_DENOISE_MODES).name('Denoise Mode').onChange((mode: typeof denoiseSettings.mode) => {
+    if (volumetricSystem) setVolumetricDenoiseMode(volumetricSystem, mode);
+  });
   godrayFolder.add(uniforms.denoiseStrength, 'value', 0, 1, 0.1).name('Denoising');
-  godrayFolder.add(spotLight, 'intensity', 50, 500, 10).name('Light Intensity');
+  godrayFolder.add(uniforms.temporalBlend, 'value', 0.02, 1, 0.01).name('Temporal Blend');
+  godrayFolder.add(uniforms.upsampleDepthSigma, 'value', 0.01, 1, 0.01).name('Edge Depth Tolerance');
+  godrayFolder.add(uniforms.volumetricResolution, 'value', 0.25, 1, 0.05).name('Volumetric Resolution');
+  godrayFolder.add(uniforms.heightFalloff, 'value', 0, 0.2, 0.005).name('Height Falloff');
+  godrayFolder.add(uniforms.edgeSoftness, 'value', 0, 20, 0.5).name('Edge Softness');
+  godrayFolder.add(uniforms.anisotropy, 'value', -0.9, 0.9, 0.01).name('Anisotropy');
+  godrayFolder.add(uniforms.backAnisotropy, 'value', -0.9, 0.9, 0.01).name('Back Lobe Anisotropy');
+  godrayFolder.add(uniforms.backScatter, 'value', 0, 1, 0.01).name('Back Lobe Weight');
+  if (volumetricSystem.volumeControl) {
+    const { volumeControl } = volumetricSystem;
+    godrayFolder.add(volumeControl, 'shape', VOLUME_SHAPES).name('Volume Shape').onChange(() => volumeControl.updateVolume());
+  }
+  // Light controls read through to the system, loading a preset can replace the lights
+  const spot = () => volumetricSystem?.spotLight ?? null;
+  const sun = () => volumetricSystem?.sunLight ?? null;
+  const lightSettings = {
+    get intensity() { return spot()?.intensity ?? 0; },
+    set intensity(v: number) { const light = spot(); if (light) light.intensity = v; },
+    get useSun() { return sun()?.visible ?? false; },
+    set useSun(v: boolean) {
+      const light = sun();
+      if (light) light.visible = v;
+      const spotLight = spot();
+      if (spotLight) spotLight.visible = !v;
+    },
+    get sunIntensity() { return sun()?.intensity ?? 0; },
+    set sunIntensity(v: number) { const light = sun(); if (light) light.intensity = v; },
+    get x() { return spot()?.position.x ?? 0; },
+    set x(v: number) { spot()?.position.setX(v); },
+    get y() { return spot()?.position.y ?? 0; },
+    set y(v: number) { spot()?.position.setY(v); },
+    get z() { return spot()?.position.z ?? 0; },
+    set z(v: number) { spot()?.position.setZ(v); }
+  };
+  godrayFolder.add(lightSettings, 'intensity', 50, 500, 10).name('Light Intensity');
+  
+  if (volumetricSystem.sunLight) {
+    godrayFolder.add(lightSettings, 'useSun').name('Use Sun (Directional)');
+    godrayFolder.add(lightSettings, 'sunIntensity', 0, 20, 0.1).name('Sun Intensity');
+  }
   
   const colorControl = {
     color: '#ffeac7',
     updateColor: (value: string) => {
-      spotLight.color.setHex(parseInt(value.replace('#', '0x')));
+      spot()?.color.setHex(parseInt(value.replace('#', '0x')));
+      sun()?.color.setHex(parseInt(value.replace('#', '0x')));
     }
   };
   godrayFolder.addColor(colorControl, 'color').name('Light Color').onChange(colorControl.updateColor);
   
-  godrayFolder.add(spotLight.position, 'x', 30, 90, 1).name('Light X');
-  godrayFolder.add(spotLight.position, 'y', 100, 200, 5).name('Light Y');
-  godrayFolder.add(spotLight.position, 'z', 50, 150, 5).name('Light Z');
+  const cookieSettings = { stainedGlass: CONFIG.lighting.stainedGlass, seed: CONFIG.lighting.stainedGlassSeed };
+  const applyCookie = () => {
+    const spotLight = spot();
+    if (!volumetricSystem || !spotLight) return;
+    spotLight.map?.dispose();
+    const cookie = cookieSettings.stainedGlass ? createStainedGlassCookie({ seed: cookieSettings.seed }) : null;
+    setVolumetricLightCookie(volumetricSystem, spotLight, cookie);
+  };
+  godrayFolder.add(cookieSettings, 'stainedGlass').name('Stained Glass').onChange(applyCookie);
+  godrayFolder.add(cookieSettings, 'seed', 0, 99, 1).name('Window Seed').onFinishChange(applyCookie);
+  
+  godrayFolder.add(lightSettings, 'x', 30, 90, 1).name('Light X');
+  godrayFolder.add(lightSettings, 'y', 100, 200, 5).name('Light Y');
+  godrayFolder.add(lightSettings, 'z', 50, 150, 5).name('Light Z');
   
   godrayFolder.open();
   
+  // The tier reads through to the system so it follows the adaptive controller
+  const qualitySettings = {
+    get tier() { return volumetricSystem?.qualityTier ?? 'high'; },
+    set tier(tier: VolumetricQualityTier) { if (volumetricSystem) applyVolumetricQuality(volumetricSystem, tier); },
+    adaptive: adaptiveQuality?.isEnabled() ?? false,
+    targetFps: 60
+  };
+  const qualityFolder = gui.addFolder('Quality');
+  const tierController = qualityFolder.add(qualitySettings, 'tier', VOLUMETRIC_QUALITY_TIER_NAMES).name('Tier').listen();
+  qualityFolder.add(qualitySettings, 'adaptive').name('Adaptive').onChange((v: boolean) => {
+    adaptiveQuality?.setEnabled(v);
+    if (v) tierController.disable(); else tierController.enable();
+  });
+  qualityFolder.add(qualitySettings, 'targetFps', 30, 144, 1).name('Target FPS').onChange((v: number) => adaptiveQuality?.setTargetFps(v));
+  qualityFolder.close();
+  
+  if (volumetricSystem.fogControl) {
+    const windFolder = gui.addFolder('Wind');
+    windFolder.add(uniforms.windDirection.value, 'x', -1, 1, 0.01).name('Direction X');
+    windFolder.add(uniforms.windDirection.value, 'y', -1, 1, 0.01).name('Direction Y');
+    windFolder.add(uniforms.windDirection.value, 'z', -1, 1, 0.01).name('Direction Z');
+    windFolder.add(uniforms.windSpeed, 'value', 0, 10, 0.05).name('Speed');
+    windFolder.add(uniforms.turbulence, 'value', 0, 2, 0.01).name('Turbulence');
+    windFolder.add(uniforms.octaveDrift.value, 'x', 0, 4, 0.05).name('Drift Octave 1');
+    windFolder.add(uniforms.octaveDrift.value, 'y', 0, 4, 0.05).name('Drift Octave 2');
+    windFolder.add(uniforms.octaveDrift.value, 'z', 0, 4, 0.05).name('Drift Octave 3');
+    windFolder.add(volumetricSystem.fogControl, 'paused').name('Pause Fog');
+    windFolder.add(volumetricSystem.fogControl, 'timeScale', 0, 4, 0.05).name('Fog Time Scale');
+    windFolder.add(uniforms.fogTime, 'value', 0, 600, 0.1).name('Fog Time').listen();
+    windFolder.close();
+  }
+  
+  const noiseSettings = { ...DEFAULT_NOISE_OPTIONS, ...volumetricSystem.noiseOptions };
+  const applyNoise = () => {
+    if (volumetricSystem) setVolumetricNoise(volumetricSystem, noiseSettings);
+  };
+  const noiseFolder = gui.addFolder('Fog Noise');
+  noiseFolder.add(noiseSettings, 'type', ['perlin', 'worley', 'perlin-worley']).name('Type').onFinishChange(applyNoise);
+  noiseFolder.add(noiseSettings, 'seed', 0, 9999, 1).name('Seed').onFinishChange(applyNoise);
+  noiseFolder.add(noiseSettings, 'octaves', 1, 6, 1).name('Octaves').onFinishChange(applyNoise);
+  noiseFolder.add(noiseSettings, 'frequency', 1, 64, 1).name('Frequency').onFinishChange(applyNoise);
+  noiseFolder.add(noiseSettings, 'resolution', [32, 64, 128]).name('Resolution').onFinishChange(applyNoise);
+  noiseFolder.add(noiseSettings, 'tileable').name('Tileable').onFinishChange(applyNoise);
+  noiseFolder.close();
+  
+  if (lightTimeline) {
+    const timeline = lightTimeline;
+    const timelineSettings = {
+      get playing() { return timeline.isPlaying(); },
+      set playing(v: boolean) { if (v) timeline.play(); else timeline.pause(); },
+      get time() { return timeline.getTime(); },
+      set time(v: number) { timeline.seek(v); },
+      loop: timeline.getLoopMode(),
+      speed: timeline.getSpeed()
+    };
+    const timelineFolder = gui.addFolder('Light Timeline');
+    timelineFolder.add(timelineSettings, 'playing').name('Play').listen();
+    timelineFolder.add(timelineSettings, 'time', 0, timeline.getDuration(), 0.01).name('Time').listen();
+    timelineFolder.add(timelineSettings, 'loop', TIMELINE_LOOP_MODES).name('Loop').onChange((v: typeof timelineSettings.loop) => timeline.setLoopMode(v));
+    timelineFolder.add(timelineSettings, 'speed', -4, 4, 0.05).name('Speed').onChange((v: number) => timeline.setSpeed(v));
+    timelineFolder.close();
+  }
+  
+  if (timeOfDay) {
+    const controller = timeOfDay;
+    const daySettings = {
+      enabled: controller.isEnabled(),
+      get hour() { return controller.getHour(); },
+      set hour(v: number) { controller.setHour(v); },
+      get day() { return controller.getDayOfYear(); },
+      set day(v: number) { controller.setDayOfYear(v); },
+      latitude: controller.getLatitude(),
+      speed: controller.getSpeed(),
+      driveFog: false
+    };
+    const dayFolder = gui.addFolder('Time of Day');
+    dayFolder.add(daySettings, 'enabled').name('Enable').onChange((v: boolean) => controller.setEnabled(v));
+    dayFolder.add(daySettings, 'hour', 0, 23.99, 0.01).name('Hour').listen();
+    dayFolder.add(daySettings, 'day', 1, 365, 1).name('Day of Year').listen();
+    dayFolder.add(daySettings, 'latitude', -90, 90, 0.1).name('Latitude').onChange((v: number) => controller.setLatitude(v));
+    dayFolder.add(daySettings, 'speed', 0, 7200, 10).name('Speed').onChange((v: number) => controller.setSpeed(v));
+    dayFolder.add(daySettings, 'driveFog').name('Drive Fog').onChange((v: boolean) => controller.setFogDriven(v));
+    dayFolder.close();
+  }
+  
+  const presetSettings = {
+    name: 'cathedral',
+    status: '',
+    save: () => {
+      if (!volumetricSystem) return;
+      const preset = exportPreset(volumetricSystem, presetSettings.name);
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(new Blob([JSON.stringify(preset, null, 2)], { type: 'application/json' }));
+      link.download = `${presetSettings.name || 'preset'}.json`;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(link.href));
+    },
+    load: () => {
+      const input = document.createElement('input');
+      input.type = 'file';
+      input.accept = 'application/json,.json';
+      input.onchange = async () => {
+        const file = input.files?.[0];
+        if (!file || !volumetricSystem) return;
+        try {
+          const previousSpotLight = volumetricSystem.spotLight;
+          const preset = applyPreset(volumetricSystem, parsePreset(await file.text()));
+          rebindGodrayLight(previousSpotLight);
+          presetSettings.name = preset.name;
+          presetSettings.status = `loaded ${file.name}`;
+          gui.controllersRecursive().forEach(controller => controller.updateDisplay());
+        } catch (error) {
+          presetSettings.status = (error as Error).message;
+        }
+      };
+      input.click();
+    }
+  };
+  const presetFolder = gui.addFolder('Presets');
+  presetFolder.add(presetSettings, 'name').name('Name');
+  presetFolder.add(presetSettings, 'save').name('Save Preset');
+  presetFolder.add(presetSettings, 'load').name('Load Preset');
+  presetFolder.add(presetSettings, 'status').name('Status').listen().disable();
+  presetFolder.close();
+  
+  const captureSettings = {
+    width: 3840,
+    height: 2160,
+    supersample: 2,
+    keepPixelArt: false,
+    fps: 30,
+    duration: 5,
+    startTime: 0,
+    format: 'webm',
+    status: 'idle',
+    screenshot: async () => {
+      const blob = await runCapture(capture => capture.captureStill({
+        width: captureSettings.width,
+        height: captureSettings.height,
+        supersample: captureSettings.supersample,
+        pixelArt: captureSettings.keepPixelArt
+      }));
+      if (blob) downloadBlob(blob, `godrays-${Date.now()}.png`);
+    },
+    record: async () => {
+      const options = {
+        width: captureSettings.width,
+        height: captureSettings.height,
+        supersample: captureSettings.supersample,
+        pixelArt: captureSettings.keepPixelArt,
+        fps: captureSettings.fps,
+        duration: captureSettings.duration,
+        startTime: captureSettings.startTime,
+        onProgress: (frame: number, frames: number) => { captureSettings.status = `${frame} / ${frames}`; }
+      };
+      const stamp = Date.now();
+      if (captureSettings.format === 'webm') {
+        const video = await runCapture(capture => capture.recordWebm(options));
+        if (video) downloadBlob(video, `godrays-${stamp}.webm`);
+      } else {
+        await runCapture(capture => capture.recordPngSequence({
+          ...options,
+          onFrame: (blob, frame) => downloadBlob(blob, `godrays-${stamp}-${String(frame).padStart(4, '0')}.png`)
+        }));
+      }
+      captureSettings.status = 'idle';
+    }
+  };
+  const captureFolder = gui.addFolder('Capture');
+  captureFolder.add(captureSettings, 'width', 64, 7680, 1).name('Width');
+  captureFolder.add(captureSettings, 'height', 64, 4320, 1).name('Height');
+  captureFolder.add(captureSettings, 'supersample', 1, 4, 1).name('Supersample');
+  captureFolder.add(captureSettings, 'keepPixelArt').name('Keep Pixel Art');
+  captureFolder.add(captureSettings, 'screenshot').name('Screenshot');
+  captureFolder.add(captureSettings, 'fps', 12, 60, 1).name('FPS');
+  captureFolder.add(captureSettings, 'duration', 1, 60, 1).name('Duration (s)');
+  captureFolder.add(captureSettings, 'startTime', 0, 600, 0.1).name('Start Time (s)');
+  captureFolder.add(captureSettings, 'format', ['webm', 'png']).name('Format');
+  captureFolder.add(captureSettings, 'record').name('Record');
+  captureFolder.add(captureSettings, 'status').name('Progress').listen().disable();
+  captureFolder.close();
+  
+  const debugSettings = {
+    mode: volumetricSystem.debugMode ?? 'off',
+    bounds: false
+  };
+  const debugFolder = gui.addFolder('Volumetric Debug');
+  debugFolder.add(debugSettings, 'mode', VOLUMETRIC_DEBUG_MODES).name('View').onChange((v: VolumetricDebugMode) => {
+    if (volumetricSystem) setVolumetricDebugMode(volumetricSystem, v);
+  });
+  debugFolder.add(debugSettings, 'bounds').name('Show Bounds').onChange((v: boolean) => {
+    if (volumetricSystem) setVolumetricBoundsVisible(volumetricSystem, v);
+  });
+  debugFolder.close();
+  
   if (pixelArt) {
     const pixelFolder = gui.addFolder('Pixel Art');
     const pixelSettings = {
       enabled: true,
-      virtualHeight: pixelArt['options'].virtualHeight
+      virtualHeight: pixelArt['options'].virtualHeight,
+      scaleMode: pixelArt['options'].scaleMode,
+      upscale: pixelArt['options'].upscale
     };
     pixelFolder.add(pixelSettings, 'enabled').name('Enable').onChange((v: boolean) => {
       pixelArt?.setEnabled(v);
     });
+    pixelFolder.add(pixelSettings, 'scaleMode', PIXEL_ART_SCALE_MODES).name('Scale Mode').onChange((v: PixelArtScaleMode) => {
+      pixelArt?.setScaleMode(v);
+    });
+    pixelFolder.add(pixelSettings, 'upscale', PIXEL_ART_UPSCALE_MODES).name('Upscale').onChange((v: PixelArtUpscaleMode) => {
+      pixelArt?.setUpscaleMode(v);
+    });
     pixelFolder.add(pixelSettings, 'virtualHeight', 90, 360, 1).name('Virtual Height').onChange((v: number) => {
       if (!pixelArt) return;
       pixelArt['options'].virtualHeight = Math.floor(v);
       pixelArt.updateVirtualResolution();
     });
+    const paletteSettings = {
+      palette: 'none',
+      dither: pixelArt['options'].dither,
+      ditherStrength: pixelArt['options'].ditherStrength
+    };
+    pixelFolder.add(paletteSettings, 'palette', ['none', ...Object.keys(PIXEL_ART_PALETTES)]).name('Palette').onChange((v: string) => {
+      pixelArt?.setPalette(v === 'none' ? null : v as PixelArtPaletteName);
+    });
+    pixelFolder.add(paletteSettings, 'dither', { Off: 0, '2x2': 2, '4x4': 4, '8x8': 8 }).name('Dither').onChange((v: PixelArtDither) => {
+      pixelArt?.setDither(v);
+    });
+    pixelFolder.add(paletteSettings, 'ditherStrength', 0, 0.5, 0.01).name('Dither Strength').onChange((v: number) => {
+      pixelArt?.setDitherStrength(v);
+    });
+    const outlineSettings = {
+      silhouetteOutline: pixelArt['options'].silhouetteOutline,
+      creaseOutline: pixelArt['options'].creaseOutline,
+      outlineColor: '#000000',
+      silhouetteThreshold: pixelArt['options'].silhouetteThreshold,
+      creaseThreshold: pixelArt['options'].creaseThreshold
+    };
+    const updateOutlines = () => pixelArt?.setOutlines(outlineSettings);
+    pixelFolder.add(outlineSettings, 'silhouetteOutline').name('Silhouette Outline').onChange(updateOutlines);
+    pixelFolder.add(outlineSettings, 'creaseOutline').name('Crease Outline').onChange(updateOutlines);
+    pixelFolder.addColor(outlineSettings, 'outlineColor').name('Outline Color').onChange(updateOutlines);
+    pixelFolder.add(outlineSettings, 'silhouetteThreshold', 0.01, 0.5, 0.01).name('Silhouette Threshold').onChange(updateOutlines);
+    pixelFolder.add(outlineSettings, 'creaseThreshold', 0.05, 1, 0.01).name('Crease Threshold').onChange(updateOutlines);
     pixelFolder.open();
   }
 
@@ -435,29 +935,23 @@ function setupGUI() {
   linkElement.innerHTML = '<a href="https://fab.com/s/06173ad52aa7" target="_blank" style="color: #4a9eff; text-decoration: underline;">3D model source</a>';
   gui.domElement.appendChild(linkElement);
   
-  // Toggle GUI visibility with 'P' key
+  // Toggle GUI visibility with the toggleGui action ('P' by default)
   let guiVisible = true;
-  document.addEventListener('keydown', (event) => {
-    if (event.code === 'KeyP') {
-      guiVisible = !guiVisible;
-      gui.domElement.style.display = guiVisible ? 'block' : 'none';
-    }
+  fpsController.input.onAction('toggleGui', (pressed) => {
+    if (!pressed) return;
+    guiVisible = !guiVisible;
+    gui.domElement.style.display = guiVisible ? 'block' : 'none';
   });
 
   renderer.domElement.addEventListener('click', (ev) => {
+    if ((ev as PointerEvent).pointerType === 'touch') return;
     if (!(gui.domElement as HTMLElement).contains(ev.target as Node)) {
       renderer.domElement.requestPointerLock();
     }
   });
 }
 
-function animate(time: number) {
-  stats.begin();
-  stats1.begin();
-  stats2.begin();
-  
-  const deltaTime = (time - lastTime) / 1000;
-  lastTime = time;
+function stepPhysics(deltaTime: number) {
   accumulator += deltaTime;
   if (accumulator > maxAccum) accumulator = maxAccum;
   while (accumulator >= fixedStep) {
@@ -466,11 +960,30 @@ function animate(time: number) {
     fpsController.updateAfterPhysics();
     accumulator -= fixedStep;
   }
+}
+
+function animate(time: number) {
+  const deltaTime = (time - lastTime) / 1000;
+  lastTime = time;
+  // A running capture owns the simulation and the renderer
+  if (frameCapture?.isCapturing()) {
+    requestAnimationFrame(animate);
+    return;
+  }
+  
+  stats.begin();
+  stats1.begin();
+  stats2.begin();
   
+  stepPhysics(deltaTime);
+  
+  adaptiveQuality?.update(deltaTime);
   if (pixelArt) pixelArt.preRender();
 
   if (volumetricSystem) {
     animateVolumetricLights(volumetricSystem);
+    lightTimeline?.update(deltaTime);
+    timeOfDay?.update(deltaTime);
     volumetricSystem.postProcessing?.render();
   } else {
     renderer.render(scene, camera);
@@ -486,7 +999,7 @@ function animate(time: number) {
 function onWindowResize() {
   camera.aspect = window.innerWidth / window.innerHeight;
   camera.updateProjectionMatrix();
-  if (pixelArt) {
+  if (pixelArt?.isEnabled()) {
     pixelArt.onResize();
   } else {
     renderer.setSize(window.innerWidth, window.innerHeight);
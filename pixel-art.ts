@@ -1,31 +1,194 @@
 import * as THREE from 'three/webgpu';
+import {
+  Fn, If, Loop, float, int, vec2, vec3, vec4, texture, uniform, uniformArray, reference, screenCoordinate, uv,
+  max, step, smoothstep, perspectiveDepthToViewZ, orthographicDepthToViewZ
+} from 'three/tsl';
+
+export type PixelArtPaletteName = 'pico8' | 'gameboy' | 'cga' | 'ega';
+
+// A built-in palette name or a list of colors such as '#ff004d'
+export type PixelArtPalette = PixelArtPaletteName | THREE.ColorRepresentation[];
+
+// Side of the Bayer matrix, 0 disables dithering
+export type PixelArtDither = 0 | 2 | 4 | 8;
+
+// 'fit' scales the low-res frame by any factor to fill the container's height,
+// 'integer' only by whole multiples; the leftover space is letterboxed
+export type PixelArtScaleMode = 'fit' | 'integer';
+
+export const PIXEL_ART_SCALE_MODES: PixelArtScaleMode[] = ['fit', 'integer'];
+
+// 'css' stretches the low-res canvas with image-rendering: pixelated; 'gpu'
+// keeps the canvas at full resolution and upscales in a final render pass, so
+// screenshots and canvas captures see the same image as the user
+export type PixelArtUpscaleMode = 'css' | 'gpu';
+
+export const PIXEL_ART_UPSCALE_MODES: PixelArtUpscaleMode[] = ['css', 'gpu'];
+
+export type PixelArtCamera = THREE.PerspectiveCamera | THREE.OrthographicCamera;
+
+// 'anchor' stabilizes one point anchorDistance in front of the camera; 'grid'
+// moves an orthographic camera in whole texels so the entire frame holds still
+export type PixelArtSnapMode = 'anchor' | 'grid';
+
+export const PIXEL_ART_SNAP_MODES: PixelArtSnapMode[] = ['anchor', 'grid'];
 
 export interface PixelArtOptions {
   virtualHeight?: number; // target low-res height in pixels (width is derived from aspect)
   anchorDistance?: number; // world units in front of camera to anchor quantization
+  snapMode?: PixelArtSnapMode; // defaults to 'grid' for orthographic cameras, 'anchor' otherwise
   enabled?: boolean;
+  container?: HTMLElement | null; // element the canvas is sized to, defaults to the canvas's parent
+  scaleMode?: PixelArtScaleMode;
+  upscale?: PixelArtUpscaleMode;
+  palette?: PixelArtPalette | null; // quantize the output to these colors, null keeps full color
+  dither?: PixelArtDither;
+  ditherStrength?: number; // amplitude of the dither offset in 0..1 color units
+  scene?: THREE.Scene | null; // rendered again with normals for the outlines
+  silhouetteOutline?: boolean; // outline where depth jumps, around objects
+  creaseOutline?: boolean; // outline where the normal bends, inside objects
+  outlineColor?: THREE.ColorRepresentation;
+  silhouetteThreshold?: number; // depth jump relative to the pixel's depth
+  creaseThreshold?: number; // 1 - cos of the angle between neighboring normals
+  // Called with the virtual resolution for passes that would otherwise size
+  // themselves from the renderer, and with null once disabled. Needed in GPU
+  // upscale mode, where the renderer stays at the canvas's full size.
+  onRenderSize?: ((size: THREE.Vector2 | null) => void) | null;
+}
+
+export const PIXEL_ART_PALETTES: Record<PixelArtPaletteName, string[]> = {
+  pico8: [
+    '#000000', '#1d2b53', '#7e2553', '#008751', '#ab5236', '#5f574f', '#c2c3c7', '#fff1e8',
+    '#ff004d', '#ffa300', '#ffec27', '#00e436', '#29adff', '#83769c', '#ff77a8', '#ffccaa'
+  ],
+  gameboy: ['#0f380f', '#306230', '#8bac0f', '#9bbc0f'],
+  cga: ['#000000', '#55ffff', '#ff55ff', '#ffffff'],
+  ega: [
+    '#000000', '#0000aa', '#00aa00', '#00aaaa', '#aa0000', '#aa00aa', '#aa5500', '#aaaaaa',
+    '#555555', '#5555ff', '#55ff55', '#55ffff', '#ff5555', '#ff55ff', '#ffff55', '#ffffff'
+  ]
+};
+
+export const PIXEL_ART_DITHER_SIZES: PixelArtDither[] = [0, 2, 4, 8];
+
+const MAX_PALETTE_COLORS = 256;
+
+// Recursive Bayer index matrix, row-major, values 0..size²-1
+function bayerMatrix(size: number): number[] {
+  if (size <= 1) return [0];
+  const half = size / 2;
+  const inner = bayerMatrix(half);
+  const matrix = new Array(size * size);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const base = inner[(y % half) * half + (x % half)] * 4;
+      const quadrant = [0, 2, 3, 1][(y < half ? 0 : 2) + (x < half ? 0 : 1)];
+      matrix[y * size + x] = base + quadrant;
+    }
+  }
+  return matrix;
+}
+
+export function getCameraAspect(camera: PixelArtCamera): number {
+  return camera instanceof THREE.PerspectiveCamera ? camera.aspect : (camera.right - camera.left) / (camera.top - camera.bottom);
+}
+
+// Orthographic cameras keep their vertical extent and widen around the center
+export function setCameraAspect(camera: PixelArtCamera, aspect: number): void {
+  if (camera instanceof THREE.PerspectiveCamera) {
+    camera.aspect = aspect;
+  } else {
+    const center = (camera.left + camera.right) / 2;
+    const halfWidth = (camera.top - camera.bottom) / 2 * aspect;
+    camera.left = center - halfWidth;
+    camera.right = center + halfWidth;
+  }
+  camera.updateProjectionMatrix();
 }
 
 export class PixelArtRenderer {
   renderer: THREE.WebGPURenderer;
-  camera: THREE.PerspectiveCamera;
-  options: Required<PixelArtOptions>;
+  camera: PixelArtCamera;
+  scene: THREE.Scene | null;
+  container: HTMLElement;
+  options: Required<Omit<PixelArtOptions, 'scene' | 'container' | 'onRenderSize'>>;
+  onRenderSize: ((size: THREE.Vector2 | null) => void) | null;
   virtualWidth = 320;
   virtualHeight = 180;
   epsilon = new THREE.Vector2();
+  scale = 1; // CSS pixels per virtual pixel
+  offset = new THREE.Vector2(); // letterbox offset of the canvas in its container
+  _unsnappedPosition: THREE.Vector3 | null = null; // camera position while grid snapped
   _prevEnabled = false;
-  _originalDPR = 1;
+  // Renderer and canvas state from before enable(), put back by disable()
+  _saved: { pixelRatio: number; size: THREE.Vector2; aspect: number; style: Record<string, string> } | null = null;
   _canvas: HTMLCanvasElement;
+  _resizeObserver: ResizeObserver | null = null;
+  _onWindowResize = () => this.onResize();
+  // Post pass: the frame renders into _frameTarget, then gets outlined and
+  // quantized onto the canvas
+  _frameTarget = new THREE.RenderTarget(1, 1, { minFilter: THREE.NearestFilter, magFilter: THREE.NearestFilter });
+  _postQuad: THREE.QuadMesh;
+  // GPU upscale: post effects go to _postTarget, then everything is scaled up
+  // onto the full-resolution canvas
+  _postTarget = new THREE.RenderTarget(1, 1, { minFilter: THREE.NearestFilter, magFilter: THREE.NearestFilter, depthBuffer: false });
+  _upscaleQuad: THREE.QuadMesh;
+  _upscaleSource = texture(this._frameTarget.texture);
+  _upscaleOffset = uniform(new THREE.Vector2()); // device pixels, includes the sub-pixel shift
+  _upscaleScale = uniform(1); // device pixels per virtual pixel
+  // Outline prepass of the scene with view normals and depth, same camera and resolution
+  _normalTarget = new THREE.RenderTarget(1, 1, {
+    minFilter: THREE.NearestFilter,
+    magFilter: THREE.NearestFilter,
+    depthTexture: new THREE.DepthTexture(1, 1)
+  });
+  _normalMaterial = new THREE.MeshNormalNodeMaterial();
+  _silhouetteOutline = uniform(0);
+  _creaseOutline = uniform(0);
+  _outlineColor = uniform(new THREE.Color());
+  _silhouetteThreshold = uniform(0.05);
+  _creaseThreshold = uniform(0.3);
+  _resolution = uniform(new THREE.Vector2(1, 1));
+  _paletteColors = uniformArray(Array.from({ length: MAX_PALETTE_COLORS }, () => new THREE.Vector3()), 'vec3');
+  _paletteSize = uniform(0, 'int');
+  _ditherMatrix = uniformArray(new Array(64).fill(0), 'float');
+  _ditherSize = uniform(0, 'int');
+  _ditherStrength = uniform(0.2);
 
-  constructor(renderer: THREE.WebGPURenderer, camera: THREE.PerspectiveCamera, options: PixelArtOptions = {}) {
+  constructor(renderer: THREE.WebGPURenderer, camera: PixelArtCamera, options: PixelArtOptions = {}) {
     this.renderer = renderer;
     this.camera = camera;
     this.options = {
       virtualHeight: options.virtualHeight ?? 180,
       anchorDistance: options.anchorDistance ?? 10,
-      enabled: options.enabled ?? true
+      snapMode: options.snapMode ?? (camera instanceof THREE.OrthographicCamera ? 'grid' : 'anchor'),
+      enabled: options.enabled ?? true,
+      scaleMode: options.scaleMode ?? 'fit',
+      upscale: options.upscale ?? 'css',
+      palette: options.palette ?? null,
+      dither: options.dither ?? 0,
+      ditherStrength: options.ditherStrength ?? 0.2,
+      silhouetteOutline: options.silhouetteOutline ?? false,
+      creaseOutline: options.creaseOutline ?? false,
+      outlineColor: options.outlineColor ?? 0x000000,
+      silhouetteThreshold: options.silhouetteThreshold ?? 0.05,
+      creaseThreshold: options.creaseThreshold ?? 0.3
     };
+    this.scene = options.scene ?? null;
+    this.onRenderSize = options.onRenderSize ?? null;
     this._canvas = renderer.domElement as HTMLCanvasElement;
+    this.container = options.container ?? this._canvas.parentElement ?? document.body;
+
+    const material = new THREE.NodeMaterial();
+    material.fragmentNode = this.createPostNode();
+    this._postQuad = new THREE.QuadMesh(material);
+    const upscaleMaterial = new THREE.NodeMaterial();
+    upscaleMaterial.fragmentNode = this.createUpscaleNode();
+    this._upscaleQuad = new THREE.QuadMesh(upscaleMaterial);
+    this.setPalette(this.options.palette);
+    this.setDither(this.options.dither);
+    this.setDitherStrength(this.options.ditherStrength);
+    this.setOutlines(this.options);
 
     if (this.options.enabled) this.enable();
     else this.disable();
@@ -36,16 +199,36 @@ export class PixelArtRenderer {
     else this.disable();
   }
 
+  isEnabled(): boolean {
+    return this._prevEnabled;
+  }
+
   enable(): void {
     if (this._prevEnabled) return;
     this._prevEnabled = true;
-    this._originalDPR = (window.devicePixelRatio || 1);
-    // Force 1x DPR for crisp pixelation
-    this.renderer.setPixelRatio(1);
-    this._canvas.style.imageRendering = 'pixelated';
-    this._canvas.style.transformOrigin = '0 0';
-    this._canvas.style.width = '100vw';
-    this._canvas.style.height = '100vh';
+    const style = this._canvas.style;
+    this._saved = {
+      pixelRatio: this.renderer.getPixelRatio(),
+      size: this.renderer.getSize(new THREE.Vector2()),
+      aspect: getCameraAspect(this.camera),
+      style: {
+        width: style.width,
+        height: style.height,
+        imageRendering: style.imageRendering,
+        transform: style.transform,
+        transformOrigin: style.transformOrigin
+      }
+    };
+    style.imageRendering = 'pixelated';
+    style.transformOrigin = '0 0';
+
+    // The page body grows with the canvas, so it follows the viewport instead
+    if (this.container === document.body) {
+      window.addEventListener('resize', this._onWindowResize);
+    } else {
+      this._resizeObserver = new ResizeObserver(() => this.onResize());
+      this._resizeObserver.observe(this.container);
+    }
     this.updateVirtualResolution();
   }
 
@@ -53,20 +236,237 @@ export class PixelArtRenderer {
     if (!this._prevEnabled) return;
     this._prevEnabled = false;
     this.clearCameraJitter();
-    this._canvas.style.imageRendering = '';
-    this._canvas.style.transform = '';
-    this._canvas.style.transformOrigin = '';
-    this._canvas.style.width = '';
-    this._canvas.style.height = '';
-    this.renderer.setPixelRatio(this._originalDPR);
-    this.renderer.setSize(window.innerWidth, window.innerHeight);
+    window.removeEventListener('resize', this._onWindowResize);
+    this._resizeObserver?.disconnect();
+    this._resizeObserver = null;
+
+    const saved = this._saved!;
+    this.renderer.setPixelRatio(saved.pixelRatio);
+    this.renderer.setSize(saved.size.x, saved.size.y, false);
+    Object.assign(this._canvas.style, saved.style);
+    setCameraAspect(this.camera, saved.aspect);
+    this._saved = null;
+    this.onRenderSize?.(null);
+  }
+
+  setScaleMode(mode: PixelArtScaleMode): void {
+    this.options.scaleMode = mode;
+    this.onResize();
+  }
+
+  setUpscaleMode(mode: PixelArtUpscaleMode): void {
+    this.options.upscale = mode;
+    this.onResize();
+  }
+
+  // Grid snapping needs an orthographic camera, perspective ones stay on 'anchor'
+  setSnapMode(mode: PixelArtSnapMode): void {
+    this.options.snapMode = mode === 'grid' && this.camera instanceof THREE.OrthographicCamera ? 'grid' : 'anchor';
+  }
+
+  private getContainerSize(): THREE.Vector2 {
+    if (this.container === document.body) return new THREE.Vector2(window.innerWidth, window.innerHeight);
+    return new THREE.Vector2(this.container.clientWidth, this.container.clientHeight);
   }
 
   updateVirtualResolution(): void {
-    const aspect = window.innerWidth / window.innerHeight;
+    const container = this.getContainerSize();
+    if (container.x <= 0 || container.y <= 0) return; // hidden panel, keep the last size
+
     this.virtualHeight = Math.max(1, Math.floor(this.options.virtualHeight));
-    this.virtualWidth = Math.max(1, Math.floor(this.virtualHeight * aspect));
-    this.renderer.setSize(this.virtualWidth, this.virtualHeight, false);
+    const fitScale = container.y / this.virtualHeight;
+    this.scale = this.options.scaleMode === 'integer' ? Math.max(1, Math.floor(fitScale)) : fitScale;
+    this.virtualWidth = Math.max(1, Math.floor(container.x / this.scale));
+
+    // Center the scaled frame; the remainder shows the container's background
+    const width = this.virtualWidth * this.scale;
+    const height = this.virtualHeight * this.scale;
+    this.offset.set(Math.floor((container.x - width) / 2), Math.floor((container.y - height) / 2));
+    if (this.options.upscale === 'gpu') {
+      // The canvas covers the container at the display's pixel ratio and the
+      // upscale pass draws the letterbox
+      this.renderer.setPixelRatio(this._saved!.pixelRatio);
+      this.renderer.setSize(container.x, container.y, false);
+      this._canvas.style.width = `${container.x}px`;
+      this._canvas.style.height = `${container.y}px`;
+      this._canvas.style.transform = '';
+    } else {
+      // 1x DPR for crisp pixelation
+      this.renderer.setPixelRatio(1);
+      this.renderer.setSize(this.virtualWidth, this.virtualHeight, false);
+      this._canvas.style.width = `${width}px`;
+      this._canvas.style.height = `${height}px`;
+      this._canvas.style.transform = `translate(${this.offset.x}px, ${this.offset.y}px)`;
+    }
+
+    setCameraAspect(this.camera, this.virtualWidth / this.virtualHeight);
+    this._frameTarget.setSize(this.virtualWidth, this.virtualHeight);
+    this._normalTarget.setSize(this.virtualWidth, this.virtualHeight);
+    this._postTarget.setSize(this.virtualWidth, this.virtualHeight);
+    this._resolution.value.set(this.virtualWidth, this.virtualHeight);
+    this.onRenderSize?.(new THREE.Vector2(this.virtualWidth, this.virtualHeight));
+  }
+
+  // Colors are matched in sRGB, the space the palettes are authored in
+  setPalette(palette: PixelArtPalette | null): void {
+    this.options.palette = palette;
+    const colors = typeof palette === 'string' ? PIXEL_ART_PALETTES[palette] : palette ?? [];
+    const color = new THREE.Color();
+    const rgb = colors.slice(0, MAX_PALETTE_COLORS).map(value => {
+      color.set(value).convertLinearToSRGB();
+      return [color.r, color.g, color.b];
+    });
+    this.setPaletteColors(rgb);
+  }
+
+  // Uses the distinct colors of an image, in reading order, as the palette
+  setPaletteFromImage(image: HTMLImageElement | HTMLCanvasElement | ImageBitmap): void {
+    const canvas = document.createElement('canvas');
+    canvas.width = image.width;
+    canvas.height = image.height;
+    const context = canvas.getContext('2d')!;
+    context.drawImage(image, 0, 0);
+    const data = context.getImageData(0, 0, canvas.width, canvas.height).data;
+
+    const seen = new Set<number>();
+    const rgb: number[][] = [];
+    for (let i = 0; i < data.length && rgb.length < MAX_PALETTE_COLORS; i += 4) {
+      if (data[i + 3] < 128) continue; // transparent swatch padding
+      const key = (data[i] << 16) | (data[i + 1] << 8) | data[i + 2];
+      if (seen.has(key)) continue;
+      seen.add(key);
+      rgb.push([data[i] / 255, data[i + 1] / 255, data[i + 2] / 255]);
+    }
+
+    this.options.palette = rgb.map(([r, g, b]) => '#' + new THREE.Color(r, g, b).getHexString());
+    this.setPaletteColors(rgb);
+  }
+
+  private setPaletteColors(rgb: number[][]): void {
+    const array = this._paletteColors.array as THREE.Vector3[];
+    rgb.forEach(([r, g, b], i) => array[i].set(r, g, b));
+    this._paletteSize.value = rgb.length;
+  }
+
+  setDither(size: PixelArtDither): void {
+    this.options.dither = PIXEL_ART_DITHER_SIZES.includes(size) ? size : 0;
+    const matrix = bayerMatrix(this.options.dither);
+    const cells = this.options.dither * this.options.dither;
+    const array = this._ditherMatrix.array as number[];
+    // Centered thresholds in (0, 1)
+    matrix.forEach((value, i) => { array[i] = (value + 0.5) / Math.max(cells, 1); });
+    this._ditherSize.value = this.options.dither;
+  }
+
+  setDitherStrength(strength: number): void {
+    this.options.ditherStrength = strength;
+    this._ditherStrength.value = strength;
+  }
+
+  // Toggles and thresholds take effect without recompiling the post pass
+  setOutlines(outlines: Pick<PixelArtOptions, 'silhouetteOutline' | 'creaseOutline' | 'outlineColor' | 'silhouetteThreshold' | 'creaseThreshold'>): void {
+    Object.assign(this.options, Object.fromEntries(Object.entries(outlines).filter(([, value]) => value !== undefined)));
+    this._silhouetteOutline.value = this.options.silhouetteOutline ? 1 : 0;
+    this._creaseOutline.value = this.options.creaseOutline ? 1 : 0;
+    // Matched against the encoded frame, like the palette
+    this._outlineColor.value.set(this.options.outlineColor).convertLinearToSRGB();
+    this._silhouetteThreshold.value = this.options.silhouetteThreshold;
+    this._creaseThreshold.value = this.options.creaseThreshold;
+  }
+
+  // The frame arrives tone mapped and encoded (as PostProcessing writes it),
+  // gets its outlines, then the dither offset and the nearest palette color
+  private createPostNode(): any {
+    return Fn(() => {
+      const color = texture(this._frameTarget.texture).rgb.toVar();
+
+      // Edges are found per low-res pixel of a prepass taken with the snapped
+      // camera, so they move in whole pixels along with the image
+      const near = reference('near', 'float', this.camera);
+      const far = reference('far', 'float', this.camera);
+      const texel = vec2(1).div(this._resolution);
+      const depthToViewZ = this.camera instanceof THREE.OrthographicCamera ? orthographicDepthToViewZ : perspectiveDepthToViewZ;
+      const sampleDepth = (offset: any) => float(depthToViewZ(
+        texture(this._normalTarget.depthTexture!, uv().add(offset.mul(texel))).x, near, far)).negate();
+      const sampleNormal = (offset: any) =>
+        texture(this._normalTarget.texture, uv().add(offset.mul(texel))).rgb.mul(2).sub(1);
+
+      const depth = sampleDepth(vec2(0));
+      const normal = sampleNormal(vec2(0));
+      const silhouette = float(0).toVar();
+      const crease = float(0).toVar();
+
+      for (const offset of [vec2(1, 0), vec2(-1, 0), vec2(0, 1), vec2(0, -1)]) {
+        const depthDiff = sampleDepth(offset).sub(depth);
+        const neighborNormal = sampleNormal(offset);
+
+        // Only the nearer side of a depth jump is outlined, keeping it 1 pixel wide
+        silhouette.assign(max(silhouette, step(this._silhouetteThreshold, depthDiff.div(depth))));
+
+        // Creases are drawn on one side only, picked by the sign of the normal
+        // difference, and not across depth jumps already taken by silhouettes
+        const side = smoothstep(-0.01, 0.01, normal.sub(neighborNormal).dot(vec3(1)));
+        const flat = step(depthDiff.abs().div(depth), this._silhouetteThreshold);
+        const bend = normal.dot(neighborNormal).oneMinus();
+        crease.assign(max(crease, step(this._creaseThreshold, bend).mul(side).mul(flat)));
+      }
+
+      const edge = max(silhouette.mul(this._silhouetteOutline), crease.mul(this._creaseOutline));
+      color.assign(color.mix(this._outlineColor, edge));
+
+      If(this._paletteSize.greaterThan(0), () => {
+        // The pattern is indexed by low-res pixel, so the camera snapping's view
+        // offset and presentation shift move it together with the image
+        const size = this._ditherSize;
+        If(size.greaterThan(0), () => {
+          const pixel = screenCoordinate.xy.floor();
+          const x = int(pixel.x).mod(size);
+          const y = int(pixel.y).mod(size);
+          const threshold = this._ditherMatrix.element(y.mul(size).add(x));
+          color.addAssign(threshold.sub(0.5).mul(this._ditherStrength));
+        });
+
+        const nearest = vec3(0).toVar();
+        const nearestDistance = float(1e9).toVar();
+        Loop(this._paletteSize, ({ i }: any) => {
+          const candidate = this._paletteColors.element(i);
+          const offset = candidate.sub(color);
+          const distance = offset.dot(offset);
+          If(distance.lessThan(nearestDistance), () => {
+            nearestDistance.assign(distance);
+            nearest.assign(candidate);
+          });
+        });
+        color.assign(nearest);
+      });
+
+      return vec4(color, 1);
+    })();
+  }
+
+  // Nearest-neighbor lookup of the virtual pixel under each device pixel,
+  // letterboxed with transparent black
+  private createUpscaleNode(): any {
+    return Fn(() => {
+      const virtual = screenCoordinate.xy.sub(this._upscaleOffset).div(this._upscaleScale).floor();
+      const inside = virtual.greaterThanEqual(vec2(0)).all().and(virtual.lessThan(this._resolution).all());
+      // Screen rows run top-down, texture rows bottom-up
+      const coord = virtual.add(0.5).div(this._resolution);
+      const color = this._upscaleSource.sample(vec2(coord.x, coord.y.oneMinus()));
+      return inside.select(vec4(color.rgb, 1), vec4(0));
+    })();
+  }
+
+  private usesOutlines(): boolean {
+    return this.scene !== null && (this.options.silhouetteOutline || this.options.creaseOutline);
+  }
+
+  private usesPostPass(): boolean {
+    return this._prevEnabled && (this._paletteSize.value > 0 || this.usesOutlines());
+  }
+
+  private usesGpuUpscale(): boolean {
+    return this._prevEnabled && this.options.upscale === 'gpu';
   }
 
   onResize(): void {
@@ -77,21 +477,44 @@ export class PixelArtRenderer {
   preRender(): void {
     if (!this._prevEnabled) return;
     this.applyCameraJitter();
+    if (this.usesOutlines()) this.renderNormalPrepass();
+    if (this.usesPostPass() || this.usesGpuUpscale()) this.renderer.setRenderTarget(this._frameTarget);
   }
 
   postRender(): void {
     if (!this._prevEnabled) return;
     this.clearCameraJitter();
+
+    if (this.usesGpuUpscale()) {
+      const usesPostPass = this.usesPostPass();
+      if (usesPostPass) this.renderQuad(this._postQuad, this._postTarget);
+      this._upscaleSource.value = usesPostPass ? this._postTarget.texture : this._frameTarget.texture;
+
+      // Same shift as the CSS path, converted to device pixels
+      const pixelRatio = this._saved!.pixelRatio;
+      this._upscaleScale.value = this.scale * pixelRatio;
+      this._upscaleOffset.value.set(
+        (this.offset.x - this.epsilon.x * this.scale) * pixelRatio,
+        (this.offset.y + this.epsilon.y * this.scale) * pixelRatio
+      );
+      this.renderQuad(this._upscaleQuad, null);
+      return;
+    }
+
+    if (this.usesPostPass()) this.renderQuad(this._postQuad, null);
     // Re-introduce the sub-pixel remainder as a presentation-time shift
-    const scaleX = window.innerWidth / this.virtualWidth;
-    const scaleY = window.innerHeight / this.virtualHeight;
-    const shiftX = -this.epsilon.x * scaleX;
+    const shiftX = this.offset.x - this.epsilon.x * this.scale;
     // Screen Y is top-down; NDC Y is bottom-up → invert sign
-    const shiftY = this.epsilon.y * scaleY;
+    const shiftY = this.offset.y + this.epsilon.y * this.scale;
     this._canvas.style.transform = `translate(${shiftX}px, ${shiftY}px)`;
   }
 
   private applyCameraJitter(): void {
+    if (this.options.snapMode === 'grid' && this.camera instanceof THREE.OrthographicCamera) {
+      this.applyGridSnap(this.camera);
+      return;
+    }
+
     // Compute fractional screen-space position of an anchor forward of the camera
     const cam = this.camera;
     const camWorld = cam.getWorldPosition(new THREE.Vector3());
@@ -112,10 +535,71 @@ export class PixelArtRenderer {
     cam.setViewOffset(this.virtualWidth, this.virtualHeight, -fracX, -fracY, this.virtualWidth, this.virtualHeight);
   }
 
+  // Moves the camera to the nearest texel corner of a grid aligned with its own
+  // right and up axes; the leftover fraction becomes the presentation shift
+  private applyGridSnap(cam: THREE.OrthographicCamera): void {
+    const texelWidth = (cam.right - cam.left) / cam.zoom / this.virtualWidth;
+    const texelHeight = (cam.top - cam.bottom) / cam.zoom / this.virtualHeight;
+    const inverseRotation = cam.quaternion.clone().invert();
+
+    this._unsnappedPosition = cam.position.clone();
+    const local = cam.position.clone().applyQuaternion(inverseRotation);
+    const snappedX = Math.round(local.x / texelWidth) * texelWidth;
+    const snappedY = Math.round(local.y / texelHeight) * texelHeight;
+    this.epsilon.set((local.x - snappedX) / texelWidth, (local.y - snappedY) / texelHeight);
+
+    local.x = snappedX;
+    local.y = snappedY;
+    cam.position.copy(local.applyQuaternion(cam.quaternion));
+    cam.updateMatrixWorld();
+  }
+
   private clearCameraJitter(): void {
     this.camera.clearViewOffset();
+    if (this._unsnappedPosition) {
+      this.camera.position.copy(this._unsnappedPosition);
+      this.camera.updateMatrixWorld();
+      this._unsnappedPosition = null;
+    }
   }
-}
 
+  private renderNormalPrepass(): void {
+    const scene = this.scene!;
+    const overrideMaterial = scene.overrideMaterial;
+    const background = scene.background;
+    scene.overrideMaterial = this._normalMaterial;
+    scene.background = null;
+
+    this.renderer.setRenderTarget(this._normalTarget);
+    this.renderer.render(scene, this.camera);
+    this.renderer.setRenderTarget(null);
+
+    scene.overrideMaterial = overrideMaterial;
+    scene.background = background;
+  }
+
+  private renderQuad(quad: THREE.QuadMesh, target: THREE.RenderTarget | null): void {
+    const renderer = this.renderer;
+    renderer.setRenderTarget(target);
 
+    // The frame is already display encoded, skip the output transform
+    const toneMapping = renderer.toneMapping;
+    const outputColorSpace = renderer.outputColorSpace;
+    renderer.toneMapping = THREE.NoToneMapping;
+    renderer.outputColorSpace = THREE.LinearSRGBColorSpace;
+    quad.render(renderer);
+    renderer.setRenderTarget(null);
+    renderer.toneMapping = toneMapping;
+    renderer.outputColorSpace = outputColorSpace;
+  }
 
+  dispose(): void {
+    this.disable();
+    this._frameTarget.dispose();
+    this._postTarget.dispose();
+    this._normalTarget.dispose();
+    this._normalMaterial.dispose();
+    (this._postQuad.material as THREE.Material).dispose();
+    (this._upscaleQuad.material as THREE.Material).dispose();
+  }
+}
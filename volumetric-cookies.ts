@@ -0,0 +1,105 @@
+import * as THREE from 'three/webgpu';
+
+// ============================================================================
+// CONSTANTS & INTERFACES
+// ============================================================================
+
+export interface StainedGlassCookieOptions {
+  resolution?: number; // texels per side of the square cookie
+  seed?: number; // same seed always yields the same window
+  cells?: number; // number of glass panes
+  leadWidth?: number; // width of the lead came between panes, in texels
+  palette?: THREE.ColorRepresentation[]; // pane colors, picked per cell
+  arch?: boolean; // clip to a pointed gothic arch instead of the full square
+}
+
+export const DEFAULT_STAINED_GLASS_PALETTE: THREE.ColorRepresentation[] = [
+  0xb3202a, 0x1d4fa8, 0xe0a526, 0x2f8a4a, 0x7a2f8f, 0xd9d2b0, 0x2a9bb5, 0xc8571e
+];
+
+// ============================================================================
+// GENERATION
+// ============================================================================
+
+// Small deterministic PRNG (mulberry32)
+function createRandom(seed: number): () => number {
+  let state = seed | 0;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Pointed arch: straight jambs up to the spring line, then two arcs centered
+// on the opposite jambs, stretched vertically so the apex meets the top edge
+function insideArch(u: number, v: number): boolean {
+  const halfSpan = 0.9;
+  const springLine = 0.55;
+  const x = u * 2 - 1;
+  if (Math.abs(x) > halfSpan) return false;
+  if (v < springLine) return true;
+  const y = (v - springLine) / (1 - springLine) * Math.sqrt(3) * halfSpan;
+  const radiusSq = (2 * halfSpan) ** 2;
+  return (x + halfSpan) ** 2 + y * y <= radiusSq && (x - halfSpan) ** 2 + y * y <= radiusSq;
+}
+
+/**
+ * Builds a stained-glass window cookie: Voronoi panes in saturated colors
+ * separated by dark lead, for projecting through a spot light. Cookies are
+ * multiplied into the light color, so black lead blocks light entirely.
+ */
+export function createStainedGlassCookie(options: StainedGlassCookieOptions = {}): THREE.DataTexture {
+  const size = Math.max(16, Math.floor(options.resolution ?? 256));
+  const cells = Math.max(1, Math.floor(options.cells ?? 24));
+  const leadWidth = options.leadWidth ?? 2;
+  const palette = (options.palette ?? DEFAULT_STAINED_GLASS_PALETTE).map(color => new THREE.Color(color));
+  const random = createRandom(options.seed ?? 1337);
+
+  const points: { x: number; y: number; color: THREE.Color }[] = [];
+  for (let i = 0; i < cells; i++) {
+    points.push({ x: random() * size, y: random() * size, color: palette[Math.floor(random() * palette.length)] });
+  }
+
+  const data = new Uint8Array(size * size * 4);
+  const color = new THREE.Color();
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const i = (y * size + x) * 4;
+      data[i + 3] = 255;
+      if (options.arch !== false && !insideArch((x + 0.5) / size, (y + 0.5) / size)) continue;
+
+      // Nearest two panes; the lead runs where they are equally close
+      let nearest = Infinity, second = Infinity, pane = points[0];
+      for (const point of points) {
+        const distance = Math.hypot(point.x - x, point.y - y);
+        if (distance < nearest) {
+          second = nearest;
+          nearest = distance;
+          pane = point;
+        } else if (distance < second) {
+          second = distance;
+        }
+      }
+      if (second - nearest < leadWidth) continue;
+
+      // Stored in sRGB so the texture's color space conversion yields the palette colors
+      color.copy(pane.color).convertLinearToSRGB();
+      data[i] = Math.round(color.r * 255);
+      data[i + 1] = Math.round(color.g * 255);
+      data[i + 2] = Math.round(color.b * 255);
+    }
+  }
+
+  const texture = new THREE.DataTexture(data, size, size);
+  texture.colorSpace = THREE.SRGBColorSpace;
+  texture.minFilter = THREE.LinearFilter;
+  texture.magFilter = THREE.LinearFilter;
+  texture.wrapS = THREE.ClampToEdgeWrapping;
+  texture.wrapT = THREE.ClampToEdgeWrapping;
+  texture.needsUpdate = true;
+
+  return texture;
+}
@@ -0,0 +1,215 @@
+import * as THREE from 'three/webgpu';
+import {
+  Fn, uv, vec2, vec4, float, texture, passTexture, uniform, reference, screenUV, textureSize,
+  abs, exp, min, max, clamp, mix, select, nodeObject, convertToTexture,
+  getViewPosition, getScreenPosition, perspectiveDepthToViewZ
+} from 'three/tsl';
+import type { ShaderNodeObject } from 'three/tsl';
+
+// ============================================================================
+// TEMPORAL DENOISE NODE
+// ============================================================================
+
+const _size = new THREE.Vector2();
+const _quadMesh = new THREE.QuadMesh();
+
+let _rendererState: THREE.RendererUtils.RendererState;
+
+/**
+ * Temporal accumulation for a noisy, jittered input. Each frame the history is
+ * reprojected into the current view using the scene depth and the previous
+ * camera matrices, clamped to the 3x3 neighborhood of the current frame to
+ * reject stale samples, then blended with the current frame.
+ */
+export class TemporalDenoiseNode extends THREE.TempNode {
+  static get type() {
+    return 'TemporalDenoiseNode';
+  }
+
+  textureNode: ShaderNodeObject<THREE.TextureNode>;
+  depthNode: ShaderNodeObject<THREE.TextureNode>;
+  camera: THREE.Camera;
+  blend: ShaderNodeObject<THREE.UniformNode<number>>; // weight of the current frame, lower accumulates longer
+
+  private historyNode = texture(new THREE.Texture()); // history target is bound before each resolve
+  private texelSize = uniform(new THREE.Vector2());
+  private historyValid = uniform(0);
+  private inverseProjection = uniform(new THREE.Matrix4());
+  private cameraWorld = uniform(new THREE.Matrix4());
+  private previousView = uniform(new THREE.Matrix4());
+  private previousProjection = uniform(new THREE.Matrix4());
+
+  private resolveRT: THREE.RenderTarget;
+  private historyRT: THREE.RenderTarget;
+  private outputTextureNode: ShaderNodeObject<THREE.TextureNode>;
+  private resolveMaterial?: THREE.NodeMaterial;
+
+  constructor(textureNode: ShaderNodeObject<THREE.TextureNode>, depthNode: ShaderNodeObject<THREE.TextureNode>, camera: THREE.Camera, blend = 0.1) {
+    super('vec4');
+
+    this.textureNode = textureNode;
+    this.depthNode = depthNode;
+    this.camera = camera;
+    this.blend = uniform(blend);
+
+    this.resolveRT = new THREE.RenderTarget(1, 1, { depthBuffer: false, type: THREE.HalfFloatType });
+    this.resolveRT.texture.name = 'TemporalDenoiseNode.resolve';
+
+    this.historyRT = new THREE.RenderTarget(1, 1, { depthBuffer: false, type: THREE.HalfFloatType });
+    this.historyRT.texture.name = 'TemporalDenoiseNode.history';
+
+    this.outputTextureNode = passTexture(this as any, this.resolveRT.texture);
+
+    this.updateBeforeType = THREE.NodeUpdateType.FRAME;
+  }
+
+  getTextureNode(): ShaderNodeObject<THREE.TextureNode> {
+    return this.outputTextureNode;
+  }
+
+  // Drops the accumulated history, e.g. after a camera cut
+  reset(): void {
+    this.historyValid.value = 0;
+  }
+
+  setSize(width: number, height: number): void {
+    if (this.resolveRT.width === width && this.resolveRT.height === height) return;
+    this.resolveRT.setSize(width, height);
+    this.historyRT.setSize(width, height);
+    this.reset();
+  }
+
+  updateBefore(frame: any): void {
+    const { renderer } = frame;
+
+    _rendererState = THREE.RendererUtils.resetRendererState(renderer, _rendererState);
+
+    // Resolve at the input's own resolution so half-res buffers stay cheap
+    const map = this.textureNode.value;
+    if (map?.image?.width) _size.set(map.image.width, map.image.height);
+    else renderer.getDrawingBufferSize(_size);
+
+    this.setSize(_size.x, _size.y);
+    this.texelSize.value.set(1 / _size.x, 1 / _size.y);
+
+    this.inverseProjection.value.copy(this.camera.projectionMatrixInverse);
+    this.cameraWorld.value.copy(this.camera.matrixWorld);
+    this.historyNode.value = this.historyRT.texture;
+
+    _quadMesh.material = this.resolveMaterial!;
+    renderer.setRenderTarget(this.resolveRT);
+    _quadMesh.render(renderer);
+
+    // Resolved frame becomes next frame's history
+    const temp = this.historyRT;
+    this.historyRT = this.resolveRT;
+    this.resolveRT = temp;
+    this.outputTextureNode.value = this.historyRT.texture;
+
+    this.previousView.value.copy(this.camera.matrixWorldInverse);
+    this.previousProjection.value.copy(this.camera.projectionMatrix);
+    this.historyValid.value = 1;
+
+    THREE.RendererUtils.restoreRendererState(renderer, _rendererState);
+  }
+
+  setup(builder: any): any {
+    const { textureNode, depthNode, historyNode, texelSize } = this;
+
+    const resolve = Fn(() => {
+      const uvNode = uv();
+      const current = textureNode.sample(uvNode).toVar();
+
+      // Neighborhood bounds of the current frame for history clamping
+      const minColor = current.toVar();
+      const maxColor = current.toVar();
+      for (let y = -1; y <= 1; y++) {
+        for (let x = -1; x <= 1; x++) {
+          if (x === 0 && y === 0) continue;
+          const neighbor = textureNode.sample(uvNode.add(vec2(x, y).mul(texelSize)));
+          minColor.assign(min(minColor, neighbor));
+          maxColor.assign(max(maxColor, neighbor));
+        }
+      }
+
+      // Reproject through the scene depth into last frame's screen space
+      const depth = depthNode.sample(uvNode).r;
+      const viewPosition = getViewPosition(uvNode, depth, this.inverseProjection);
+      const worldPosition = this.cameraWorld.mul(vec4(viewPosition, 1));
+      const previousUV = getScreenPosition(this.previousView.mul(worldPosition).xyz, this.previousProjection).toVar();
+
+      const history = clamp(historyNode.sample(previousUV), minColor, maxColor);
+
+      const offscreen = previousUV.x.lessThan(0).or(previousUV.x.greaterThan(1))
+        .or(previousUV.y.lessThan(0)).or(previousUV.y.greaterThan(1));
+      const alpha = select(offscreen.or(this.historyValid.equal(0)), float(1), this.blend);
+
+      return mix(history, current, alpha);
+    });
+
+    const material = this.resolveMaterial || (this.resolveMaterial = new THREE.NodeMaterial());
+    material.name = 'TemporalDenoise';
+    material.fragmentNode = resolve();
+
+    const properties = builder.getNodeProperties(this);
+    properties.textureNode = textureNode;
+
+    return this.outputTextureNode;
+  }
+
+  dispose(): void {
+    this.resolveRT.dispose();
+    this.historyRT.dispose();
+    this.resolveMaterial?.dispose();
+  }
+}
+
+export const temporalDenoise = (node: THREE.Node, depthNode: ShaderNodeObject<THREE.TextureNode>, camera: THREE.Camera, blend?: number) =>
+  nodeObject(new TemporalDenoiseNode(convertToTexture(node), depthNode, camera, blend));
+
+// ============================================================================
+// DEPTH-AWARE UPSAMPLING
+// ============================================================================
+
+/**
+ * Joint bilateral upsample and blur of a low-resolution buffer guided by the
+ * full-resolution scene depth. Taps whose depth differs from the output pixel
+ * are down-weighted, so light from behind a silhouette doesn't bleed across it.
+ * `spread` is the tap spacing in low-resolution texels; `depthSigma` is the
+ * tolerated relative depth difference.
+ */
+export const bilateralUpsample = (
+  node: THREE.Node,
+  depthNode: ShaderNodeObject<THREE.TextureNode>,
+  camera: THREE.Camera,
+  spread: THREE.Node | number,
+  depthSigma: THREE.Node | number
+) => {
+  const source = convertToTexture(node);
+  const near = reference('near', 'float', camera);
+  const far = reference('far', 'float', camera);
+
+  const linearDepthAt = (uvNode: THREE.Node) => float(perspectiveDepthToViewZ(depthNode.sample(uvNode).r, near, far)).negate();
+
+  return Fn(() => {
+    const uvNode = screenUV;
+    const texel = vec2(1).div(vec2(textureSize(source)));
+    const centerDepth = linearDepthAt(uvNode).toVar();
+
+    const sum = vec4(0).toVar();
+    const weightSum = float(0).toVar();
+
+    for (let y = -1; y <= 1; y++) {
+      for (let x = -1; x <= 1; x++) {
+        const tapUV = uvNode.add(vec2(x, y).mul(texel).mul(spread));
+        const depthDelta = abs(linearDepthAt(tapUV).sub(centerDepth)).div(centerDepth.mul(depthSigma).max(1e-4));
+        const weight = float(Math.exp(-(x * x + y * y) / 2)).mul(exp(depthDelta.negate()));
+
+        sum.addAssign(source.sample(tapUV).mul(weight));
+        weightSum.addAssign(weight);
+      }
+    }
+
+    return sum.div(weightSum.max(1e-4));
+  })();
+};
@@ -0,0 +1,40 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import * as THREE from 'three/webgpu';
+import { setupVolumetricLighting, setVolumetricRenderSize, VolumetricLightingSystem } from './volumetric-lighting.js';
+
+let system: VolumetricLightingSystem;
+
+// Nothing is rendered, so the renderer is never touched
+beforeEach(() => {
+  system = setupVolumetricLighting(new THREE.Scene(), new THREE.PerspectiveCamera(), {} as THREE.WebGPURenderer, 10, {
+    noise: { resolution: 8 }
+  });
+});
+
+const sizeOf = (passNode: THREE.PassNode) => [passNode.renderTarget.width, passNode.renderTarget.height];
+
+describe('setVolumetricRenderSize', () => {
+  it('renders the passes at the given size in device pixels', () => {
+    const { scenePass, volumetricPass } = system.uniforms!;
+    scenePass.setPixelRatio(2);
+    volumetricPass.setPixelRatio(2);
+    volumetricPass.setResolution(0.5);
+
+    setVolumetricRenderSize(system, { x: 320, y: 180 });
+    scenePass.setSize(1920, 1080);
+    volumetricPass.setSize(1920, 1080);
+    expect(sizeOf(scenePass)).toEqual([320, 180]);
+    expect(sizeOf(volumetricPass)).toEqual([160, 90]);
+  });
+
+  it('follows the renderer again once cleared', () => {
+    const { scenePass } = system.uniforms!;
+    scenePass.setPixelRatio(2);
+    setVolumetricRenderSize(system, { x: 320, y: 180 });
+    scenePass.setSize(1920, 1080);
+
+    setVolumetricRenderSize(system, null);
+    scenePass.setSize(1920, 1080);
+    expect(sizeOf(scenePass)).toEqual([3840, 2160]);
+  });
+});
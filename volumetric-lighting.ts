@@ -1,8 +1,15 @@
 import * as THREE from 'three/webgpu';
-import { vec3, Fn, time, texture3D, screenUV, uniform, screenCoordinate, pass } from 'three/tsl';
+import {
+  float, int, vec2, vec3, vec4, Fn, If, texture3D, screenUV, uniform, uniformArray, renderGroup, positionView, screenCoordinate,
+  nodeObject, abs, max, min, clamp, length, exp, select, smoothstep, viewZToOrthographicDepth, viewZToPerspectiveDepth,
+  linearDepth, property, Loop, positionWorld, modelRadius, cameraPosition, cameraViewMatrix, cameraNear, cameraFar
+} from 'three/tsl';
+import type { ShaderNodeObject } from 'three/tsl';
 import { bayer16 } from 'three/addons/tsl/math/Bayer.js';
 import { gaussianBlur } from 'three/addons/tsl/display/GaussianBlurNode.js';
-import { ImprovedNoise } from 'three/addons/math/ImprovedNoise.js';
+import { CSMShadowNode, CSMShadowNodeMode } from 'three/addons/csm/CSMShadowNode.js';
+import { createNoiseTexture3D, NoiseTextureOptions, releaseNoiseTexture } from './volumetric-noise.js';
+import { temporalDenoise, bilateralUpsample } from './volumetric-denoise.js';
 
 // ============================================================================
 // CONSTANTS & INTERFACES
@@ -10,29 +17,154 @@ import { ImprovedNoise } from 'three/addons/math/ImprovedNoise.js';
 
 export const LAYER_VOLUMETRIC_LIGHTING = 10;
 
+export type VolumetricLight = THREE.PointLight | THREE.SpotLight | THREE.DirectionalLight;
+
+export type VolumeShape = 'box' | 'sphere' | 'cylinder' | 'capsule';
+
+export const VOLUME_SHAPES: VolumeShape[] = ['box', 'sphere', 'cylinder', 'capsule'];
+
+export type VolumetricDenoiseMode = 'none' | 'blur' | 'bilateral' | 'temporal';
+
+export const VOLUMETRIC_DENOISE_MODES: VolumetricDenoiseMode[] = ['none', 'blur', 'bilateral', 'temporal'];
+
+export type VolumetricQualityTier = 'low' | 'medium' | 'high' | 'ultra';
+
+// 'volumetric' shows the volumetric buffer without the scene; 'density' and
+// 'shadowing' isolate those terms of the raymarch; 'steps' is a cost heatmap
+export type VolumetricDebugMode = 'off' | 'volumetric' | 'density' | 'shadowing' | 'steps';
+
+export const VOLUMETRIC_DEBUG_MODES: VolumetricDebugMode[] = ['off', 'volumetric', 'density', 'shadowing', 'steps'];
+
+// Raymarch steps per pixel that map to the hot end of the step heatmap
+const STEP_HEATMAP_RANGE = 40;
+
+export interface VolumetricQualitySettings {
+  steps: number; // raymarch steps per volume
+  resolution: number; // volumetric pass scale relative to the canvas
+  shadowMapSize: number; // shadow map size of spot lights and sun cascades taking part in the pass
+}
+
+// Ordered from cheapest to most expensive
+export const VOLUMETRIC_QUALITY_TIERS: Record<VolumetricQualityTier, VolumetricQualitySettings> = {
+  low: { steps: 6, resolution: 0.25, shadowMapSize: 1024 },
+  medium: { steps: 8, resolution: 0.35, shadowMapSize: 2048 },
+  high: { steps: 12, resolution: 0.5, shadowMapSize: 4096 },
+  ultra: { steps: 20, resolution: 0.75, shadowMapSize: 4096 }
+};
+
+export const VOLUMETRIC_QUALITY_TIER_NAMES = Object.keys(VOLUMETRIC_QUALITY_TIERS) as VolumetricQualityTier[];
+
+export interface VolumetricLightOptions {
+  contribution?: number; // scales this light's in-scattering without affecting surface lighting
+  animated?: boolean; // whether animateVolumetricLights drifts this light around its home position
+  cookie?: THREE.Texture | null; // projected texture for spot lights, see setVolumetricLightCookie
+}
+
+export interface VolumetricSunLightOptions {
+  color?: THREE.ColorRepresentation;
+  intensity?: number;
+  direction?: THREE.Vector3Like; // direction the light travels, from the sun towards the scene
+  target?: THREE.Vector3Like; // point the cascades are oriented around
+  distance?: number; // how far from the target the light is placed along -direction
+  cascades?: number;
+  maxFar?: number; // furthest view distance covered by cascades; defaults to the farthest density volume
+  mode?: CSMShadowNodeMode;
+  lightMargin?: number; // extra depth behind each cascade so tall occluders still cast
+  fade?: boolean; // blend between neighbouring cascades instead of switching at the split
+}
+
+export interface VolumetricLightEntry {
+  light: VolumetricLight;
+  contribution: any;
+  animated: boolean;
+  home: THREE.Vector3;
+}
+
+export interface DensityVolumeOptions {
+  shape?: VolumeShape;
+  width?: number;
+  height?: number;
+  depth?: number;
+  position?: THREE.Vector3Like;
+  rotation?: THREE.Euler;
+  density?: number; // multiplies the in-scattering of this volume
+  smokeAmount?: number; // blend between uniform fog (0) and noise-driven density (1+)
+  noiseScale?: number; // multiplies the noise sampling frequency
+  wind?: THREE.Vector3Like; // drift velocity added to the system wind, in world units per second
+}
+
+export interface DensityVolume {
+  mesh: THREE.Mesh;
+  shape: VolumeShape;
+  width: number;
+  height: number;
+  depth: number;
+  uniforms: {
+    density: any;
+    smokeAmount: any;
+    noiseScale: any;
+    wind: any;
+  };
+  boundsHelper: THREE.Mesh; // wireframe of the volume shape, see setVolumetricBoundsVisible
+  // Rebuilds the geometry and shape uniforms after changing shape or size
+  updateGeometry: () => void;
+}
+
+export interface VolumetricLightingOptions {
+  noise?: NoiseTextureOptions;
+  denoiseMode?: VolumetricDenoiseMode;
+  quality?: VolumetricQualityTier;
+}
+
 export interface VolumetricLightingSystem {
   volumetricMesh: THREE.Mesh | null;
   pointLight: THREE.PointLight | null;
   spotLight: THREE.SpotLight | null;
+  sunLight: THREE.DirectionalLight | null;
+  lights: VolumetricLightEntry[] | null;
+  volumes: DensityVolume[] | null;
+  noiseOptions: NoiseTextureOptions | null;
+  denoiseMode: VolumetricDenoiseMode | null;
+  qualityTier: VolumetricQualityTier | null;
+  debugMode: VolumetricDebugMode | null;
   postProcessing: THREE.PostProcessing | null;
   uniforms: {
     smokeAmount: any;
     volumetricLightingIntensity: any;
     denoiseStrength: any;
+    upsampleDepthSigma: any;
+    volumetricResolution: any;
+    temporalBlend: any;
+    frameJitter: any;
+    fogTime: any;
+    windDirection: any;
+    windSpeed: any;
+    turbulence: any;
+    octaveDrift: any;
+    noiseTexture: any;
+    heightFalloff: any;
+    edgeSoftness: any;
+    anisotropy: any;
+    backAnisotropy: any;
+    backScatter: any;
+    debugMode: any;
     volumetricPass: any;
     blurredVolumetricPass: any;
+    temporalVolumetricPass: any;
     scenePass: any;
   } | null;
+  fogControl: {
+    paused: boolean;
+    timeScale: number;
+  } | null;
   animationControl: { 
     enableLightAnimation: boolean;
     manualOverride: boolean;
     manualOverrideTime: number;
-    lastManualPositions: {
-      spotLight?: THREE.Vector3;
-      pointLight?: THREE.Vector3;
-    };
+    lastManualPositions: Map<VolumetricLight, THREE.Vector3>;
   } | null;
   volumeControl: {
+    shape: VolumeShape;
     width: number;
     height: number;
     depth: number;
@@ -44,42 +176,485 @@ export interface VolumetricLightingSystem {
 }
 
 // ============================================================================
-// NOISE TEXTURE GENERATION
+// VOLUME SHAPES
 // ============================================================================
 
-function createTexture3D(): THREE.Data3DTexture {
-  let i = 0;
-  const size = 128;
-  const data = new Uint8Array(size * size * size);
-  
-  const scale = 10;
-  const perlin = new ImprovedNoise();
-  const repeatFactor = 5.0;
-  
-  for (let z = 0; z < size; z++) {
-    for (let y = 0; y < size; y++) {
-      for (let x = 0; x < size; x++) {
-        const nx = (x / size) * repeatFactor;
-        const ny = (y / size) * repeatFactor;
-        const nz = (z / size) * repeatFactor;
-        
-        const noiseValue = perlin.noise(nx * scale, ny * scale, nz * scale);
-        data[i] = 128 + 128 * noiseValue;
-        i++;
+// Signed distance to the volume surface in volume-local space; shapes fill the
+// half-size extents, with cylinders and capsules standing upright
+const volumeSDF = Fn(([position, halfSize, shape]: any[]) => {
+  const p = position.toVar();
+
+  const q = abs(p).sub(halfSize);
+  const boxDist = length(max(q, 0)).add(min(max(q.x, max(q.y, q.z)), 0));
+
+  // Ellipsoid bound approximation
+  const k0 = length(p.div(halfSize));
+  const k1 = length(p.div(halfSize.mul(halfSize)));
+  const sphereDist = k0.mul(k0.sub(1)).div(k1);
+
+  const radius = min(halfSize.x, halfSize.z);
+  const radial = vec2(length(p.xz.div(halfSize.xz)).sub(1).mul(radius), abs(p.y).sub(halfSize.y));
+  const cylinderDist = min(max(radial.x, radial.y), 0).add(length(max(radial, 0)));
+
+  const segment = max(halfSize.y.sub(radius), 0);
+  const axial = vec3(p.x.mul(radius).div(halfSize.x), p.y.sub(clamp(p.y, segment.negate(), segment)), p.z.mul(radius).div(halfSize.z));
+  const capsuleDist = length(axial).sub(radius);
+
+  return select(shape.equal(1), sphereDist,
+    select(shape.equal(2), cylinderDist,
+      select(shape.equal(3), capsuleDist, boxDist)));
+});
+
+function createVolumeGeometry(shape: VolumeShape, width: number, height: number, depth: number): THREE.BufferGeometry {
+  switch (shape) {
+    case 'sphere':
+      return new THREE.SphereGeometry(0.5, 32, 16).scale(width, height, depth);
+    case 'cylinder':
+      return new THREE.CylinderGeometry(0.5, 0.5, 1, 32).scale(width, height, depth);
+    case 'capsule': {
+      const radius = Math.min(width, depth) / 2;
+      const length = Math.max(0, height - 2 * radius);
+      return new THREE.CapsuleGeometry(radius, length, 8, 32).scale(width / (2 * radius), 1, depth / (2 * radius));
+    }
+    case 'box':
+    default:
+      return new THREE.BoxGeometry(width, height, depth);
+  }
+}
+
+// ============================================================================
+// SCATTERING MATERIAL
+// ============================================================================
+
+// Raymarch state shared by the lighting callbacks of one volume material
+const scatteringDensity = property('vec3');
+const linearDepthRay = property('vec3');
+const outgoingRayLight = property('vec3');
+
+type LightContributionLookup = (light: THREE.Light) => any;
+
+// Phase weight for the cosine between light propagation and the view ray
+type PhaseFunction = (cosTheta: any) => any;
+
+// Henyey-Greenstein phase function scaled by 4π, so isotropic scattering (g = 0)
+// is 1 and existing intensities keep their meaning
+const henyeyGreenstein = Fn(([cosTheta, g]: any[]) => {
+  const g2 = g.mul(g);
+  const denominator = max(g2.sub(g.mul(cosTheta).mul(2)).add(1), 1e-4);
+  return g2.oneMinus().div(denominator.mul(denominator.sqrt()));
+});
+
+const debugModeIs = (debugMode: any, mode: VolumetricDebugMode) => debugMode.equal(VOLUMETRIC_DEBUG_MODES.indexOf(mode));
+
+/**
+ * Marches a ray through the volume and accumulates in-scattered light, like
+ * three's VolumetricLightingModel (which three/webgpu does not export), with
+ * phase, per-light contribution and debug views on top.
+ */
+class VolumetricScatteringModel extends THREE.LightingModel {
+  getContribution: LightContributionLookup;
+  phase: PhaseFunction;
+  debugMode: any;
+  private lightCount = 0; // lights seen so far while building the raymarch body
+
+  constructor(getContribution: LightContributionLookup, phase: PhaseFunction, debugMode: any) {
+    super();
+    this.getContribution = getContribution;
+    this.phase = phase;
+    this.debugMode = debugMode;
+  }
+
+  start(builder: any): void {
+    const { material, context } = builder;
+
+    // March from the camera to the surface, or from inside the volume out to
+    // the camera when the camera is close enough to be inside it
+    const startPos = property('vec3');
+    const endPos = property('vec3');
+    If(cameraPosition.sub(positionWorld).length().greaterThan(modelRadius.mul(2)), () => {
+      startPos.assign(cameraPosition);
+      endPos.assign(positionWorld);
+    }).Else(() => {
+      startPos.assign(positionWorld);
+      endPos.assign(cameraPosition);
+    });
+
+    const viewVector = endPos.sub(startPos);
+    const steps = uniform(0, 'int').onRenderUpdate(({ material }: any) => material.steps);
+    const stepSize = viewVector.length().div(steps).toVar();
+    const rayDir = viewVector.normalize().toVar();
+
+    const distTravelled = float(0).toVar();
+    const transmittance = vec3(1).toVar();
+    // Reduces banding
+    if (material.offsetNode) distTravelled.addAssign(material.offsetNode.mul(stepSize));
+
+    Loop(steps, () => {
+      const positionRay = startPos.add(rayDir.mul(distTravelled));
+      const positionViewRay = cameraViewMatrix.mul(vec4(positionRay, 1)).xyz;
+
+      if (material.depthNode !== null) {
+        linearDepthRay.assign(linearDepth(viewZToPerspectiveDepth(positionViewRay.z, cameraNear, cameraFar)));
+        context.sceneDepthNode = linearDepth(material.depthNode).toVar();
       }
+
+      context.positionWorld = positionRay;
+      context.shadowPositionWorld = positionRay;
+      context.positionView = positionViewRay;
+
+      scatteringDensity.assign(0);
+      const scatteringNode = material.scatteringNode?.({ positionRay });
+
+      super.start(builder);
+
+      if (scatteringNode) scatteringDensity.mulAssign(scatteringNode);
+
+      // Beer's law
+      transmittance.mulAssign(scatteringDensity.mul(0.01).negate().mul(stepSize).exp());
+      distTravelled.addAssign(stepSize);
+    });
+
+    outgoingRayLight.addAssign(transmittance.saturate().oneMinus());
+  }
+
+  scatteringLight(lightColor: any, builder: any): void {
+    // Only light in front of the opaque scene scatters towards the camera
+    const sceneDepthNode = builder.context.sceneDepthNode;
+    if (sceneDepthNode) {
+      If(sceneDepthNode.greaterThanEqual(linearDepthRay), () => {
+        scatteringDensity.addAssign(lightColor);
+      });
+    } else {
+      scatteringDensity.addAssign(lightColor);
     }
   }
-  
-  const texture = new THREE.Data3DTexture(data, size, size, size);
-  texture.format = THREE.RedFormat;
-  texture.minFilter = THREE.LinearFilter;
-  texture.magFilter = THREE.LinearFilter;
-  texture.wrapS = THREE.RepeatWrapping;
-  texture.wrapT = THREE.RepeatWrapping;
-  texture.unpackAlignment = 1;
-  texture.needsUpdate = true;
-  
-  return texture;
+
+  direct({ lightNode, lightColor, lightDirection }: any, builder: any): void {
+    // Ignore lights with infinite distance, apart from the directional sun
+    if (lightNode.light.distance === undefined && !lightNode.light.isDirectionalLight) return;
+
+    // Both vectors are in view space: lightDirection points at the light, the
+    // sample position points away from the camera
+    const cosTheta = lightDirection.dot(builder.context.positionView.normalize());
+    const shadow = lightNode.shadowNode ?? 1;
+
+    let directLight = lightColor.xyz.mul(shadow).mul(this.phase(cosTheta));
+    const contribution = this.getContribution(lightNode.light);
+    if (contribution) directLight = directLight.mul(contribution);
+
+    // Density counts once regardless of the lights; shadowing is the unlit
+    // shadow term wherever a light reaches
+    const densityLight = vec3(this.lightCount++ === 0 ? 1 : 0);
+    const shadowLight = vec3(shadow).mul(select(lightColor.xyz.length().greaterThan(0), 1, 0));
+    directLight = select(debugModeIs(this.debugMode, 'density'), densityLight,
+      select(debugModeIs(this.debugMode, 'shadowing'), shadowLight, directLight));
+
+    this.scatteringLight(directLight.toVar(), builder);
+  }
+
+  finish(builder: any): void {
+    builder.context.outgoingLight.assign(outgoingRayLight);
+
+    // Every covered pixel runs all steps, so the cost is the step count summed
+    // over overlapping volumes by the additive blending
+    const steps = uniform(0).onRenderUpdate(({ material }: any) => material.steps);
+    const outgoingLight = builder.context.outgoingLight;
+    outgoingLight.assign(select(debugModeIs(this.debugMode, 'steps'), vec3(steps.div(STEP_HEATMAP_RANGE)), outgoingLight));
+  }
+}
+
+class VolumetricScatteringMaterial extends THREE.VolumeNodeMaterial {
+  // Resolves the per-light contribution uniform of the owning system
+  getContribution: LightContributionLookup;
+  phase: PhaseFunction;
+  debugMode: any;
+
+  constructor(getContribution: LightContributionLookup, phase: PhaseFunction, debugMode: any) {
+    super();
+    this.getContribution = getContribution;
+    this.phase = phase;
+    this.debugMode = debugMode;
+  }
+
+  setupLightingModel(): any {
+    return new VolumetricScatteringModel(this.getContribution, this.phase, this.debugMode);
+  }
+}
+
+// ============================================================================
+// DENSITY VOLUMES
+// ============================================================================
+
+function createDensityVolume(
+  system: VolumetricLightingSystem,
+  options: DensityVolumeOptions,
+  smokeAmount: any = uniform(options.smokeAmount ?? 0)
+): DensityVolume {
+  const shared = system.uniforms!;
+  const wind = options.wind ?? { x: 0, y: 0, z: 0 };
+  const volumeUniforms = {
+    density: uniform(options.density ?? 1),
+    smokeAmount,
+    noiseScale: uniform(options.noiseScale ?? 1),
+    wind: uniform(new THREE.Vector3(wind.x, wind.y, wind.z))
+  };
+  const shape = uniform(0);
+  const halfSize = uniform(new THREE.Vector3());
+  const worldToLocal = uniform(new THREE.Matrix4()).onObjectUpdate(({ object }: any) => {
+    worldToLocal.value.copy(object.matrixWorld).invert();
+  });
+
+  // Dual-lobe phase: a forward lobe blended with a weaker backward one
+  const phase = (cosTheta: any) => shared.backScatter.mix(
+    henyeyGreenstein(cosTheta, shared.anisotropy),
+    henyeyGreenstein(cosTheta, shared.backAnisotropy)
+  );
+  const material = new VolumetricScatteringMaterial(light =>
+    system.lights?.find(entry => entry.light === light)?.contribution, phase, shared.debugMode);
+  material.steps = VOLUMETRIC_QUALITY_TIERS[system.qualityTier ?? 'high'].steps;
+  // In-scattered light of overlapping volumes adds up instead of the last one winning
+  material.blending = THREE.AdditiveBlending;
+  material.offsetNode = bayer16(screenCoordinate).add(shared.frameJitter).fract();
+  material.depthNode = shared.scenePass.getTextureNode('depth').sample(screenUV);
+  material.scatteringNode = Fn(({ positionRay }: any) => {
+    const windDirection = shared.windDirection.div(max(length(shared.windDirection), 1e-4));
+    const drift = windDirection.mul(shared.windSpeed).add(volumeUniforms.wind).mul(shared.fogTime);
+    
+    // Cheap domain warp from one coarse sample, skewed across the wind
+    const warp = shared.noiseTexture.sample(positionRay.mul(0.03).add(drift.mul(0.5)).mod(1)).r.sub(0.5);
+    const warpedRay = positionRay.add(vec3(warp, warp.mul(0.5), warp.negate()).mul(shared.turbulence.mul(10)));
+    
+    const sampleGrain = (scale: number, octaveDrift: any) => 
+      shared.noiseTexture.sample(warpedRay.add(drift.mul(octaveDrift)).mul(volumeUniforms.noiseScale.mul(scale)).mod(1)).r.add(0.5);
+    
+    let density = sampleGrain(0.1, shared.octaveDrift.x);
+    density = density.mul(sampleGrain(0.05, shared.octaveDrift.y));
+    density = density.mul(sampleGrain(0.02, shared.octaveDrift.z));
+    
+    const localPosition = worldToLocal.mul(vec4(positionRay, 1)).xyz;
+    
+    // Exponential falloff above the volume floor lets fog pool low
+    const heightAboveFloor = max(localPosition.y.add(halfSize.y), 0);
+    const heightFade = exp(shared.heightFalloff.negate().mul(heightAboveFloor));
+    
+    // Fade in from the surface so flying through the volume has no hard edge
+    const distance = volumeSDF(localPosition, halfSize, shape);
+    const edgeFade = smoothstep(0, max(shared.edgeSoftness, 1e-4), distance.negate());
+    
+    // The shadowing view uses flat fog so only the shadow pattern varies
+    const fogDensity = smokeAmount.mix(1, density).mul(heightFade).mul(edgeFade).mul(volumeUniforms.density);
+    return select(debugModeIs(shared.debugMode, 'shadowing'), edgeFade, fogDensity);
+  });
+
+  const mesh = new THREE.Mesh(new THREE.BufferGeometry(), material);
+  mesh.receiveShadow = true;
+  mesh.layers.disableAll();
+  mesh.layers.enable(LAYER_VOLUMETRIC_LIGHTING);
+  if (options.position) mesh.position.copy(options.position);
+  if (options.rotation) mesh.rotation.copy(options.rotation);
+
+  // Child on the default layer so it renders in the scene pass, not the volumetric one
+  const boundsHelper = new THREE.Mesh(mesh.geometry, new THREE.MeshBasicNodeMaterial({ color: 0x00ff88, wireframe: true }));
+  boundsHelper.visible = system.volumes?.[0]?.boundsHelper.visible ?? false;
+  mesh.add(boundsHelper);
+
+  const volume: DensityVolume = {
+    mesh,
+    shape: options.shape ?? 'box',
+    width: options.width ?? 10,
+    height: options.height ?? 10,
+    depth: options.depth ?? 10,
+    uniforms: volumeUniforms,
+    boundsHelper,
+    updateGeometry: () => {
+      mesh.geometry.dispose();
+      mesh.geometry = createVolumeGeometry(volume.shape, volume.width, volume.height, volume.depth);
+      boundsHelper.geometry = mesh.geometry;
+      shape.value = VOLUME_SHAPES.indexOf(volume.shape);
+      halfSize.value.set(volume.width / 2, volume.height / 2, volume.depth / 2);
+    }
+  };
+  volume.updateGeometry();
+
+  return volume;
+}
+
+function disposeDensityVolume(volume: DensityVolume, scene: THREE.Scene): void {
+  scene.remove(volume.mesh);
+  volume.mesh.geometry.dispose();
+  (volume.mesh.material as THREE.Material).dispose();
+  (volume.boundsHelper.material as THREE.Material).dispose();
+}
+
+export function addDensityVolume(
+  system: VolumetricLightingSystem,
+  scene: THREE.Scene,
+  options: DensityVolumeOptions = {}
+): DensityVolume | null {
+  if (!system.volumes || !system.uniforms) return null;
+
+  const volume = createDensityVolume(system, options);
+  scene.add(volume.mesh);
+  system.volumes.push(volume);
+  return volume;
+}
+
+export function removeDensityVolume(
+  system: VolumetricLightingSystem,
+  scene: THREE.Scene,
+  volume: DensityVolume
+): boolean {
+  if (!system.volumes) return false;
+
+  const index = system.volumes.indexOf(volume);
+  if (index === -1) return false;
+  system.volumes.splice(index, 1);
+  disposeDensityVolume(volume, scene);
+
+  // The default volume backs volumetricMesh and volumeControl
+  if (system.volumetricMesh === volume.mesh) {
+    system.volumetricMesh = null;
+    system.volumeControl = null;
+  }
+
+  return true;
+}
+
+export function getDensityVolumes(system: VolumetricLightingSystem): DensityVolume[] {
+  return system.volumes ? [...system.volumes] : [];
+}
+
+// ============================================================================
+// VOLUMETRIC PASS
+// ============================================================================
+
+// Pass that can be given a fixed size in device pixels instead of following
+// the renderer, see setVolumetricRenderSize
+class SizedPassNode extends THREE.PassNode {
+  renderSize: THREE.Vector2 | null = null;
+
+  constructor(scene: THREE.Scene, camera: THREE.Camera, options?: THREE.RenderTargetOptions) {
+    super(THREE.PassNode.COLOR, scene, camera, options);
+  }
+
+  setSize(width: number, height: number): void {
+    if (!this.renderSize) {
+      super.setSize(width, height);
+      return;
+    }
+    // Already in device pixels, so the renderer's pixel ratio doesn't apply
+    const scale = this.getResolution();
+    this.renderTarget.setSize(this.renderSize.x * scale, this.renderSize.y * scale);
+  }
+}
+
+// Pass whose resolution scale follows a uniform, so it can be tuned at runtime
+// like the other system uniforms
+class VolumetricPassNode extends SizedPassNode {
+  resolutionNode: any;
+
+  constructor(scene: THREE.Scene, camera: THREE.Camera, resolutionNode: any) {
+    super(scene, camera, { depthBuffer: false });
+    this.resolutionNode = resolutionNode;
+  }
+
+  updateBefore(frame: any): void {
+    this.setResolution(THREE.MathUtils.clamp(this.resolutionNode.value, 0.1, 1));
+    super.updateBefore(frame);
+  }
+}
+
+// ============================================================================
+// SUN SHADOWS
+// ============================================================================
+
+const _coverageBox = new THREE.Box3();
+const _volumeBox = new THREE.Box3();
+const _corner = new THREE.Vector3();
+
+/**
+ * Cascaded shadows that also work inside the raymarch. The stock node picks the
+ * cascade from the surface view position, which for a volume is its back face;
+ * here the ray sample's view position from the lighting context is used instead.
+ * The cascades' far distance optionally follows a coverage box so the whole fog
+ * volume stays shadowed without wasting resolution beyond it.
+ */
+class VolumetricCSMShadowNode extends CSMShadowNode {
+  coverage: ((target: THREE.Box3) => THREE.Box3 | null) | null = null;
+
+  // Members of CSMShadowNode that its typings leave out
+  declare _cascades: THREE.Vector2[];
+  declare _shadowNodes: ShaderNodeObject<THREE.Node>[];
+  declare _init: (builder: THREE.NodeBuilder) => void;
+
+  setup(builder: THREE.NodeBuilder): ShaderNodeObject<THREE.Node> {
+    if (this.camera === null) this._init(builder);
+
+    const camera = () => this.camera as THREE.PerspectiveCamera;
+    const viewNear = uniform(0).setGroup(renderGroup).onRenderUpdate(() => camera().near);
+    const cascades = uniformArray(this._cascades, 'vec2').setGroup(renderGroup);
+    const shadowFar = uniform(0).setGroup(renderGroup)
+      .onRenderUpdate(() => Math.min(this.maxFar, camera().far));
+
+    const rayPosition = builder.getContext().positionView as typeof positionView | undefined;
+    const viewZ = (rayPosition ?? positionView).z;
+    const sampleDepth = float(viewZToOrthographicDepth(viewZ, viewNear, shadowFar)).toVar();
+    const lastCascade = this.cascades - 1;
+
+    return Fn((fnBuilder: THREE.NodeBuilder) => {
+      this.setupShadowPosition(fnBuilder);
+
+      const result = vec4(1).toVar();
+      for (let i = 0; i < this.cascades; i++) {
+        const cascade = cascades.element(int(i));
+
+        if (!this.fade) {
+          If(sampleDepth.greaterThanEqual(cascade.x).and(sampleDepth.lessThanEqual(cascade.y)), () => {
+            result.assign(this._shadowNodes[i]);
+          });
+          continue;
+        }
+
+        // Same blend between neighbouring cascades as CSMShadowNode's fade mode
+        const center = cascade.x.add(cascade.y).div(2);
+        const closestEdge = select(sampleDepth.lessThan(center), cascade.x, cascade.y);
+        const margin = closestEdge.mul(closestEdge).mul(0.25).toVar();
+        const near = cascade.x.sub(margin.div(2));
+        const far = i === lastCascade ? cascade.y : cascade.y.add(margin.div(2));
+
+        If(sampleDepth.greaterThanEqual(near).and(sampleDepth.lessThanEqual(far)), () => {
+          let ratio: ShaderNodeObject<THREE.Node> = clamp(min(sampleDepth.sub(near), far.sub(sampleDepth)).div(margin), 0, 1);
+          // The nearest cascade has nothing to fade into
+          if (i === 0) ratio = select(sampleDepth.greaterThan(center), ratio, 1);
+          result.subAssign(this._shadowNodes[i].oneMinus().mul(ratio));
+        });
+      }
+      return result;
+    })();
+  }
+
+  updateBefore(frame: THREE.NodeFrame): void {
+    const camera = this.camera as THREE.PerspectiveCamera | null;
+    const box = camera && this.coverage?.(_coverageBox);
+
+    if (camera && box && !box.isEmpty()) {
+      // Distance to the farthest corner of everything that needs shadows
+      let farthest = 0;
+      for (let i = 0; i < 8; i++) {
+        _corner.set(i & 1 ? box.max.x : box.min.x, i & 2 ? box.max.y : box.min.y, i & 4 ? box.max.z : box.min.z);
+        farthest = Math.max(farthest, _corner.distanceTo(camera.position));
+      }
+      const maxFar = Math.min(Math.max(farthest, camera.near * 2), camera.far);
+
+      // Splits are rebuilt on the CPU, so only follow significant changes
+      if (Math.abs(maxFar - this.maxFar) > this.maxFar * 0.05) {
+        this.maxFar = maxFar;
+        this.updateFrustums();
+      }
+    }
+
+    super.updateBefore(frame);
+  }
 }
 
 // ============================================================================
@@ -90,43 +665,18 @@ export function setupVolumetricLighting(
   scene: THREE.Scene, 
   camera: THREE.Camera, 
   renderer: THREE.WebGPURenderer,
-  terrainSize: number = 100
+  terrainSize: number = 100,
+  options: VolumetricLightingOptions = {}
 ): VolumetricLightingSystem {
-  const noiseTexture3D = createTexture3D();
+  const noiseOptions = { ...options.noise };
+  const noiseTexture = texture3D(createNoiseTexture3D(noiseOptions), null, 0);
   const smokeAmount = uniform(0);
-  
-  const volumetricMaterial = new THREE.VolumeNodeMaterial();
-  volumetricMaterial.steps = 12;
-  volumetricMaterial.offsetNode = bayer16(screenCoordinate);
-  volumetricMaterial.scatteringNode = Fn(({ positionRay }: any) => {
-    const timeScaled = vec3(time, 0, time.mul(0.3));
-    
-    const sampleGrain = (scale: number, timeScale = 1) => 
-      texture3D(noiseTexture3D, positionRay.add(timeScaled.mul(timeScale)).mul(scale).mod(1), 0).r.add(0.5);
-    
-    let density = sampleGrain(0.1);
-    density = density.mul(sampleGrain(0.05, 1));
-    density = density.mul(sampleGrain(0.02, 2));
-    
-    return smokeAmount.mix(1, density);
-  });
-  
-  const initialWidth = terrainSize * 0.8;
-  const initialHeight = Math.min(terrainSize * 0.2, 30);
-  const initialDepth = terrainSize * 0.6;
-  
-  let volumetricGeometry = new THREE.BoxGeometry(initialWidth, initialHeight, initialDepth);
-  const volumetricMesh = new THREE.Mesh(volumetricGeometry, volumetricMaterial);
-  volumetricMesh.receiveShadow = true;
-  volumetricMesh.position.set(0, initialHeight / 2, 0);
-  volumetricMesh.layers.disableAll();
-  volumetricMesh.layers.enable(LAYER_VOLUMETRIC_LIGHTING);
-  scene.add(volumetricMesh);
+  const heightFalloff = uniform(0);
+  const edgeSoftness = uniform(0);
   
   const pointLight = new THREE.PointLight(0xf9bb50, 0, 100);
   pointLight.castShadow = true;
   pointLight.position.set(-5, 12, -8);
-  pointLight.layers.enable(LAYER_VOLUMETRIC_LIGHTING);
   scene.add(pointLight);
   
   const spotLight = new THREE.SpotLight(0xffffff, 0);
@@ -142,7 +692,6 @@ export function setupVolumetricLighting(
   spotLight.shadow.camera.far = 150;
   spotLight.shadow.focus = 1;
   spotLight.shadow.bias = -0.001;
-  spotLight.layers.enable(LAYER_VOLUMETRIC_LIGHTING);
   spotLight.target.position.set(0, 0, 0);
   scene.add(spotLight.target);
   scene.add(spotLight);
@@ -154,30 +703,94 @@ export function setupVolumetricLighting(
   volumetricLayer.disableAll();
   volumetricLayer.enable(LAYER_VOLUMETRIC_LIGHTING);
   
-  const scenePass = pass(scene, camera);
-  const sceneDepth = scenePass.getTextureNode('depth');
-  volumetricMaterial.depthNode = sceneDepth.sample(screenUV);
+  const scenePass = nodeObject(new SizedPassNode(scene, camera));
   
-  const volumetricPass = pass(scene, camera, { depthBuffer: false });
+  const volumetricResolution = uniform(0.5);
+  const volumetricPass = nodeObject(new VolumetricPassNode(scene, camera, volumetricResolution));
   volumetricPass.setLayers(volumetricLayer);
-  volumetricPass.setResolution(0.5);
   
   const denoiseStrength = uniform(1);
+  const upsampleDepthSigma = uniform(0.1);
   const blurredVolumetricPass = gaussianBlur(volumetricPass, denoiseStrength);
-  const scenePassColor = scenePass.add(blurredVolumetricPass.mul(volumetricLightingIntensity));
+  const temporalVolumetricPass = temporalDenoise(volumetricPass, scenePass.getTextureNode('depth'), camera);
   
-  postProcessing.outputNode = scenePassColor;
+  // Temporal accumulation needs the raymarch dither to change every frame
+  const frameJitter = uniform(0).onFrameUpdate(({ frameId }) => {
+    frameJitter.value = system.denoiseMode === 'temporal' ? (frameId * 0.618034) % 1 : 0;
+  });
+  
+  // Fog runs on its own clock so it can be paused or scrubbed independently
+  const fogControl = { paused: false, timeScale: 1 };
+  const fogTime = uniform(0).onFrameUpdate(({ deltaTime }) => {
+    if (!fogControl.paused) fogTime.value += deltaTime * fogControl.timeScale;
+  });
   
   const uniforms = {
     smokeAmount,
     volumetricLightingIntensity,
     denoiseStrength,
+    upsampleDepthSigma,
+    volumetricResolution,
+    temporalBlend: temporalVolumetricPass.blend,
+    frameJitter,
+    fogTime,
+    windDirection: uniform(new THREE.Vector3(1, 0, 0.3).normalize()),
+    windSpeed: uniform(Math.hypot(1, 0.3)),
+    turbulence: uniform(0),
+    octaveDrift: uniform(new THREE.Vector3(1, 1, 2)),
+    noiseTexture,
+    heightFalloff,
+    edgeSoftness,
+    anisotropy: uniform(0), // Henyey-Greenstein g of the main lobe, > 0 scatters forward
+    backAnisotropy: uniform(-0.3), // g of the secondary lobe
+    backScatter: uniform(0), // weight of the secondary lobe
+    debugMode: uniform(0), // index into VOLUMETRIC_DEBUG_MODES
     volumetricPass,
     blurredVolumetricPass,
+    temporalVolumetricPass,
     scenePass
   };
 
+  const volumes: DensityVolume[] = [];
+  const system: VolumetricLightingSystem = {
+    volumetricMesh: null,
+    pointLight,
+    spotLight,
+    sunLight: null,
+    lights: [],
+    volumes,
+    noiseOptions,
+    denoiseMode: options.denoiseMode ?? 'blur',
+    qualityTier: null,
+    debugMode: 'off',
+    postProcessing,
+    uniforms,
+    fogControl,
+    animationControl: { 
+      enableLightAnimation: false,
+      manualOverride: false,
+      manualOverrideTime: 0,
+      lastManualPositions: new Map()
+    },
+    volumeControl: null
+  };
+  
+  const initialWidth = terrainSize * 0.8;
+  const initialHeight = Math.min(terrainSize * 0.2, 30);
+  const initialDepth = terrainSize * 0.6;
+  
+  const defaultVolume = createDensityVolume(system, {
+    width: initialWidth,
+    height: initialHeight,
+    depth: initialDepth,
+    position: { x: 0, y: initialHeight / 2, z: 0 }
+  }, smokeAmount);
+  scene.add(defaultVolume.mesh);
+  volumes.push(defaultVolume);
+  system.volumetricMesh = defaultVolume.mesh;
+  
   const volumeControl = {
+    shape: defaultVolume.shape,
     width: initialWidth,
     height: initialHeight,
     depth: initialDepth,
@@ -185,90 +798,427 @@ export function setupVolumetricLighting(
     positionY: initialHeight / 2,
     positionZ: 0,
     updateVolume: () => {
-      volumetricGeometry.dispose();
-      volumetricGeometry = new THREE.BoxGeometry(volumeControl.width, volumeControl.height, volumeControl.depth);
-      volumetricMesh.geometry = volumetricGeometry;
-      volumetricMesh.position.set(volumeControl.positionX, volumeControl.positionY, volumeControl.positionZ);
+      Object.assign(defaultVolume, {
+        shape: volumeControl.shape,
+        width: volumeControl.width,
+        height: volumeControl.height,
+        depth: volumeControl.depth
+      });
+      defaultVolume.updateGeometry();
+      defaultVolume.mesh.position.set(volumeControl.positionX, volumeControl.positionY, volumeControl.positionZ);
     }
   };
+  system.volumeControl = volumeControl;
+
+  addVolumetricLight(system, scene, pointLight);
+  addVolumetricLight(system, scene, spotLight);
+  
+  updateOutputNode(system);
+  applyVolumetricQuality(system, options.quality ?? 'high');
+
+  return system;
+}
+
+function updateOutputNode(system: VolumetricLightingSystem): void {
+  if (!system.postProcessing || !system.uniforms) return;
+  
+  const {
+    scenePass, volumetricPass, blurredVolumetricPass, temporalVolumetricPass,
+    volumetricLightingIntensity, denoiseStrength, upsampleDepthSigma
+  } = system.uniforms;
+  const camera = scenePass.camera;
+  const sceneDepth = scenePass.getTextureNode('depth');
+  
+  let denoised = volumetricPass;
+  if (system.denoiseMode === 'blur') {
+    denoised = blurredVolumetricPass;
+  } else if (system.denoiseMode === 'bilateral') {
+    denoised = bilateralUpsample(volumetricPass, sceneDepth, camera, denoiseStrength.mul(2).max(1), upsampleDepthSigma);
+  } else if (system.denoiseMode === 'temporal') {
+    // History is kept at the low resolution; upsample it against the scene depth
+    denoised = bilateralUpsample(temporalVolumetricPass.getTextureNode(), sceneDepth, camera, 1, upsampleDepthSigma);
+  }
+  
+  const debugMode = system.debugMode ?? 'off';
+  if (debugMode === 'off') {
+    system.postProcessing.outputNode = scenePass.add(denoised.mul(volumetricLightingIntensity));
+  } else if (debugMode === 'volumetric') {
+    system.postProcessing.outputNode = denoised.mul(volumetricLightingIntensity);
+  } else if (debugMode === 'steps') {
+    // Raw buffer, blue for cheap pixels through green to red at STEP_HEATMAP_RANGE
+    const heat = clamp(volumetricPass.r, 0, 1);
+    const cold = vec3(0, 0, 1).mix(vec3(0, 1, 0), heat.mul(2).min(1));
+    system.postProcessing.outputNode = select(heat.lessThan(0.5), cold, vec3(0, 1, 0).mix(vec3(1, 0, 0), heat.mul(2).sub(1)));
+  } else {
+    // Density and shadowing are already unlit, show them without the scene
+    system.postProcessing.outputNode = denoised;
+  }
+  system.postProcessing.needsUpdate = true;
+}
+
+// Switches what the volumetric pass renders and how it is composited
+export function setVolumetricDebugMode(system: VolumetricLightingSystem, mode: VolumetricDebugMode): boolean {
+  if (!system.uniforms || !VOLUMETRIC_DEBUG_MODES.includes(mode)) return false;
+
+  system.debugMode = mode;
+  system.uniforms.debugMode.value = VOLUMETRIC_DEBUG_MODES.indexOf(mode);
+  updateOutputNode(system);
+  return true;
+}
+
+// Shows a wireframe of every density volume in the scene pass
+export function setVolumetricBoundsVisible(system: VolumetricLightingSystem, visible: boolean): void {
+  system.volumes?.forEach(volume => { volume.boundsHelper.visible = visible; });
+}
+
+export function setFogPaused(system: VolumetricLightingSystem, paused: boolean): void {
+  if (system.fogControl) system.fogControl.paused = paused;
+}
 
+// Jumps the fog animation to an absolute time in seconds
+export function setFogTime(system: VolumetricLightingSystem, seconds: number): void {
+  if (system.uniforms) system.uniforms.fogTime.value = seconds;
+}
+
+// Steps the fog clock by a fixed amount, scaled like the running clock; used
+// with the fog paused for deterministic frame captures
+export function advanceFogTime(system: VolumetricLightingSystem, seconds: number): void {
+  if (system.uniforms && system.fogControl) system.uniforms.fogTime.value += seconds * system.fogControl.timeScale;
+}
+
+/**
+ * Applies a named quality tier: raymarch steps of every volume, volumetric
+ * pass resolution and spot light and sun cascade shadow map size.
+ */
+export function applyVolumetricQuality(system: VolumetricLightingSystem, tier: VolumetricQualityTier): void {
+  if (!system.uniforms) return;
+  const settings = VOLUMETRIC_QUALITY_TIERS[tier];
+  system.qualityTier = tier;
+  
+  system.volumes?.forEach(volume => { (volume.mesh.material as THREE.VolumeNodeMaterial).steps = settings.steps; });
+  system.uniforms.volumetricResolution.value = settings.resolution;
+  
+  system.lights?.forEach(({ light }) => {
+    if (light instanceof THREE.SpotLight) light.shadow.mapSize.setScalar(settings.shadowMapSize);
+    if (light instanceof THREE.DirectionalLight) {
+      // Cascades clone the light's shadow when first built, so update them as well
+      light.shadow.mapSize.setScalar(settings.shadowMapSize);
+      const csm = light.shadow.shadowNode;
+      if (csm instanceof CSMShadowNode) csm.lights.forEach(cascade => cascade.shadow?.mapSize.setScalar(settings.shadowMapSize));
+    }
+  });
+}
+
+export function setVolumetricDenoiseMode(system: VolumetricLightingSystem, mode: VolumetricDenoiseMode): void {
+  if (!system.uniforms || system.denoiseMode === mode) return;
+  system.denoiseMode = mode;
+  if (mode === 'temporal') system.uniforms.temporalVolumetricPass.reset();
+  updateOutputNode(system);
+}
+
+/**
+ * Renders the scene and volumetric passes at a fixed size in device pixels,
+ * or at the renderer's size again with null. Lets the frame be drawn at a
+ * lower resolution than the canvas, like the pixel-art GPU upscale does.
+ */
+export function setVolumetricRenderSize(system: VolumetricLightingSystem, size: THREE.Vector2Like | null): void {
+  if (!system.uniforms) return;
+  for (const passNode of [system.uniforms.scenePass, system.uniforms.volumetricPass] as SizedPassNode[]) {
+    passNode.renderSize = size ? new THREE.Vector2(size.x, size.y) : null;
+  }
+}
+
+/**
+ * Swaps the fog density noise without recompiling the volumetric material.
+ * Options are merged over the current ones; generated textures are cached and
+ * the previous one is released, so it is disposed once it falls out of the cache.
+ */
+export function setVolumetricNoise(system: VolumetricLightingSystem, options: NoiseTextureOptions): void {
+  if (!system.uniforms || !system.noiseOptions) return;
+  Object.assign(system.noiseOptions, options);
+  const previous = system.uniforms.noiseTexture.value;
+  system.uniforms.noiseTexture.value = createNoiseTexture3D(system.noiseOptions);
+  releaseNoiseTexture(previous);
+}
+
+// ============================================================================
+// LIGHT MANAGEMENT
+// ============================================================================
+
+// Volume shaders bake in the light list, so rebuild them when it changes
+function invalidateVolumeMaterials(system: VolumetricLightingSystem): void {
+  system.volumes?.forEach(volume => { (volume.mesh.material as THREE.Material).needsUpdate = true; });
+}
+
+export function addVolumetricLight(
+  system: VolumetricLightingSystem,
+  scene: THREE.Scene,
+  light: VolumetricLight,
+  options: VolumetricLightOptions = {}
+): VolumetricLightEntry | null {
+  if (!system.lights) return null;
+
+  const existing = system.lights.find(entry => entry.light === light);
+  if (existing) {
+    if (options.contribution !== undefined) existing.contribution.value = options.contribution;
+    if (options.animated !== undefined) existing.animated = options.animated;
+    if (options.cookie !== undefined) setVolumetricLightCookie(system, light, options.cookie);
+    return existing;
+  }
+
+  const entry: VolumetricLightEntry = {
+    light,
+    contribution: uniform(options.contribution ?? 1),
+    // Drifting the sun would swing every shaft in the scene at once
+    animated: options.animated ?? !(light instanceof THREE.DirectionalLight),
+    home: light.position.clone()
+  };
+
+  light.layers.enable(LAYER_VOLUMETRIC_LIGHTING);
+  if (!light.parent) scene.add(light);
+  if (!(light instanceof THREE.PointLight) && !light.target.parent) scene.add(light.target);
+
+  system.lights.push(entry);
+  if (options.cookie !== undefined) setVolumetricLightCookie(system, light, options.cookie);
+  invalidateVolumeMaterials(system);
+  return entry;
+}
+
+export function removeVolumetricLight(
+  system: VolumetricLightingSystem,
+  scene: THREE.Scene,
+  light: VolumetricLight
+): boolean {
+  if (!system.lights) return false;
+
+  const index = system.lights.findIndex(entry => entry.light === light);
+  if (index === -1) return false;
+  system.lights.splice(index, 1);
+
+  light.layers.disable(LAYER_VOLUMETRIC_LIGHTING);
+  scene.remove(light);
+  if (!(light instanceof THREE.PointLight)) scene.remove(light.target);
+  if (light instanceof THREE.DirectionalLight) light.shadow.shadowNode?.dispose();
+
+  invalidateVolumeMaterials(system);
+  system.animationControl?.lastManualPositions.delete(light);
+
+  if (system.pointLight === light) system.pointLight = null;
+  if (system.spotLight === light) system.spotLight = null;
+  if (system.sunLight === light) system.sunLight = null;
+
+  return true;
+}
+
+export function getVolumetricLights(system: VolumetricLightingSystem): VolumetricLightEntry[] {
+  return system.lights ? [...system.lights] : [];
+}
+
+/**
+ * Projects a cookie (gobo) texture through a spot light, or removes it with
+ * null. The texture multiplies the light color for both surface lighting and
+ * in-scattering, so a stained-glass texture throws colored shafts. Cookies
+ * project through the shadow camera and need the light to cast shadows.
+ * Assigning a different texture recompiles the lit materials once.
+ */
+export function setVolumetricLightCookie(
+  system: VolumetricLightingSystem,
+  light: VolumetricLight,
+  cookie: THREE.Texture | null
+): boolean {
+  if (!system.lights?.some(entry => entry.light === light)) return false;
+  // Only spot lights have a projection to map the cookie through
+  if (!(light instanceof THREE.SpotLight)) return false;
+
+  if (cookie) {
+    // Repeating would bleed the opposite edge into the cone border
+    cookie.wrapS = THREE.ClampToEdgeWrapping;
+    cookie.wrapT = THREE.ClampToEdgeWrapping;
+  }
+  light.map = cookie;
+  return true;
+}
+
+export function getVolumetricLightCookie(system: VolumetricLightingSystem, light: VolumetricLight): THREE.Texture | null {
+  if (!system.lights?.some(entry => entry.light === light)) return null;
+  return light instanceof THREE.SpotLight ? light.map : null;
+}
+
+/**
+ * Adds a directional sun with cascaded shadow maps. Shafts from the sun are
+ * parallel and unattenuated, and unless `maxFar` is given the cascades stretch
+ * just far enough to cover every density volume from the current camera.
+ * Replaces any previous sun of the system.
+ */
+export function addVolumetricSunLight(
+  system: VolumetricLightingSystem,
+  scene: THREE.Scene,
+  options: VolumetricSunLightOptions = {},
+  lightOptions: VolumetricLightOptions = {}
+): THREE.DirectionalLight | null {
+  if (!system.lights) return null;
+  if (system.sunLight) removeVolumetricLight(system, scene, system.sunLight);
+
+  const direction = new THREE.Vector3().copy(options.direction ?? { x: -0.3, y: -1, z: -0.5 }).normalize();
+  const target = new THREE.Vector3().copy(options.target ?? { x: 0, y: 0, z: 0 });
+
+  const sunLight = new THREE.DirectionalLight(options.color ?? 0xffffff, options.intensity ?? 3);
+  sunLight.position.copy(target).addScaledVector(direction, -(options.distance ?? 100));
+  sunLight.target.position.copy(target);
+  sunLight.castShadow = true;
+  sunLight.shadow.intensity = 0.95;
+  sunLight.shadow.bias = -0.0005;
+  sunLight.shadow.camera.near = 1;
+  sunLight.shadow.camera.far = 400;
+  sunLight.shadow.mapSize.setScalar(VOLUMETRIC_QUALITY_TIERS[system.qualityTier ?? 'high'].shadowMapSize);
+
+  const csm = new VolumetricCSMShadowNode(sunLight, {
+    cascades: options.cascades ?? 4,
+    maxFar: options.maxFar ?? 200,
+    mode: options.mode ?? 'practical',
+    lightMargin: options.lightMargin ?? 100
+  });
+  csm.fade = options.fade ?? false;
+  if (options.maxFar === undefined) {
+    csm.coverage = box => {
+      box.makeEmpty();
+      system.volumes?.forEach(volume => {
+        if (!volume.mesh.visible) return;
+        if (!volume.mesh.geometry.boundingBox) volume.mesh.geometry.computeBoundingBox();
+        box.union(_volumeBox.copy(volume.mesh.geometry.boundingBox!).applyMatrix4(volume.mesh.matrixWorld));
+      });
+      return box;
+    };
+  }
+  sunLight.shadow.shadowNode = csm;
+
+  addVolumetricLight(system, scene, sunLight, lightOptions);
+  system.sunLight = sunLight;
+  return sunLight;
+}
+
+// Options that recreate the current sun, e.g. for saving it
+export function getVolumetricSunLightOptions(system: VolumetricLightingSystem): VolumetricSunLightOptions | null {
+  const sunLight = system.sunLight;
+  const csm = sunLight?.shadow.shadowNode;
+  if (!sunLight || !(csm instanceof VolumetricCSMShadowNode)) return null;
+
+  const direction = new THREE.Vector3().subVectors(sunLight.target.position, sunLight.position);
   return {
-    volumetricMesh,
-    pointLight,
-    spotLight,
-    postProcessing,
-    uniforms,
-    animationControl: { 
-      enableLightAnimation: false,
-      manualOverride: false,
-      manualOverrideTime: 0,
-      lastManualPositions: {}
-    },
-    volumeControl
+    color: sunLight.color.getHex(),
+    intensity: sunLight.intensity,
+    direction: direction.clone().normalize(),
+    target: sunLight.target.position.clone(),
+    distance: direction.length(),
+    cascades: csm.cascades,
+    maxFar: csm.coverage ? undefined : csm.maxFar,
+    mode: csm.mode,
+    lightMargin: csm.lightMargin,
+    fade: csm.fade
   };
 }
 
 export function cleanupVolumetricLighting(system: VolumetricLightingSystem, scene: THREE.Scene): void {
-  if (system.volumetricMesh) {
-    scene.remove(system.volumetricMesh);
-    system.volumetricMesh.geometry.dispose();
-    (system.volumetricMesh.material as THREE.Material).dispose();
-  }
+  system.volumes?.forEach(volume => disposeDensityVolume(volume, scene));
+  system.uniforms?.temporalVolumetricPass.dispose();
+  if (system.uniforms) releaseNoiseTexture(system.uniforms.noiseTexture.value);
   
-  if (system.pointLight) scene.remove(system.pointLight);
-  
-  if (system.spotLight) {
-    scene.remove(system.spotLight);
-    scene.remove(system.spotLight.target);
+  if (system.lights) {
+    for (const { light } of system.lights) {
+      scene.remove(light);
+      if (!(light instanceof THREE.PointLight)) scene.remove(light.target);
+      if (light instanceof THREE.DirectionalLight) light.shadow.shadowNode?.dispose();
+    }
   }
   
   Object.assign(system, {
     volumetricMesh: null,
     pointLight: null,
     spotLight: null,
+    sunLight: null,
+    lights: null,
+    volumes: null,
+    noiseOptions: null,
+    denoiseMode: null,
+    qualityTier: null,
+    debugMode: null,
     postProcessing: null,
     uniforms: null,
+    fogControl: null,
     animationControl: null,
     volumeControl: null
   });
 }
 
-export function animateVolumetricLights(system: VolumetricLightingSystem): void {
+// Drift patterns around each light's home position; additional lights of the same
+// type are phase-shifted so a set of lanterns doesn't move in lockstep
+function driftOffset(light: VolumetricLight, t: number, target: THREE.Vector3): THREE.Vector3 {
+  if (light instanceof THREE.SpotLight) {
+    return target.set(Math.cos(t * 0.2) * 4, Math.sin(t * 0.15) * 3, Math.sin(t * 0.1) * 2);
+  }
+  return target.set(Math.sin(t * 0.5) * 3, Math.cos(t * 0.3) * 2, Math.cos(t * 0.4) * 2);
+}
+
+/**
+ * Detects lights that were moved by something other than the light animation
+ * (e.g. dragged in an editor) and keeps `manualOverride` set until they have
+ * been left alone for five seconds. Animation code checks this before writing
+ * light transforms and calls recordLightPositions after writing them. `time`
+ * in seconds must come from the same clock as the light animation's.
+ */
+export function updateManualOverride(system: VolumetricLightingSystem, time = performance.now() * 0.001): boolean {
   const control = system.animationControl;
-  if (!control?.enableLightAnimation || !system.pointLight || !system.spotLight) return;
+  if (!control || !system.lights) return false;
   
-  const currentTime = performance.now() * 0.001;
+  const currentTime = time;
   
   // Check for manual position changes
-  if (control.lastManualPositions.spotLight && control.lastManualPositions.pointLight) {
-    const spotMoved = !system.spotLight.position.equals(control.lastManualPositions.spotLight);
-    const pointMoved = !system.pointLight.position.equals(control.lastManualPositions.pointLight);
-    
-    if (spotMoved || pointMoved) {
-      control.manualOverride = true;
-      control.manualOverrideTime = currentTime;
-    }
+  const moved = system.lights.some(({ light }) => {
+    const last = control.lastManualPositions.get(light);
+    return last !== undefined && !light.position.equals(last);
+  });
+  
+  if (moved) {
+    control.manualOverride = true;
+    control.manualOverrideTime = currentTime;
   }
   
   if (control.manualOverride && (currentTime - control.manualOverrideTime) > 5.0) {
     control.manualOverride = false;
   }
   
-  if (!control.manualOverride) {
-    const scale = 3.0;
-    
-    system.pointLight.position.x = Math.sin(currentTime * 0.5) * scale - 5;
-    system.pointLight.position.y = Math.cos(currentTime * 0.3) * 2 + 12;
-    system.pointLight.position.z = Math.cos(currentTime * 0.4) * 2 - 8;
-    
-    system.spotLight.position.x = Math.cos(currentTime * 0.2) * 4 + 8;
-    system.spotLight.position.y = Math.sin(currentTime * 0.15) * 3 + 18;
-    system.spotLight.position.z = -12 + Math.sin(currentTime * 0.1) * 2;
-    system.spotLight.lookAt(0, 3, 0);
-  }
-  
-  control.lastManualPositions.spotLight = system.spotLight.position.clone();
-  control.lastManualPositions.pointLight = system.pointLight.position.clone();
+  return control.manualOverride;
 }
 
+export function recordLightPositions(system: VolumetricLightingSystem): void {
+  const control = system.animationControl;
+  if (!control || !system.lights) return;
+  
+  for (const { light } of system.lights) {
+    const last = control.lastManualPositions.get(light);
+    if (last) last.copy(light.position);
+    else control.lastManualPositions.set(light, light.position.clone());
+  }
+}
 
+// `time` in seconds drives the drift; pass a simulated clock for deterministic playback
+export function animateVolumetricLights(system: VolumetricLightingSystem, time = performance.now() * 0.001): void {
+  const control = system.animationControl;
+  if (!control?.enableLightAnimation || !system.lights?.length) return;
+  
+  const currentTime = time;
+  
+  if (!updateManualOverride(system, currentTime)) {
+    const offset = new THREE.Vector3();
+    let spotIndex = 0;
+    let pointIndex = 0;
+    for (const entry of system.lights) {
+      if (!entry.animated) continue;
+      const phase = entry.light instanceof THREE.SpotLight ? spotIndex++ : pointIndex++;
+      const t = currentTime + phase * 1.7;
+      entry.light.position.copy(entry.home).add(driftOffset(entry.light, t, offset));
+    }
+  }
+  
+  recordLightPositions(system);
+}
@@ -0,0 +1,123 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import * as THREE from 'three/webgpu';
+import { setupVolumetricLighting, setVolumetricNoise } from './volumetric-lighting.js';
+import {
+  clearNoiseTextureCache,
+  createNoiseTexture3D,
+  NOISE_TEXTURE_CACHE_SIZE,
+  NoiseTextureOptions,
+  NoiseType,
+  releaseNoiseTexture
+} from './volumetric-noise.js';
+
+const SIZE = 16;
+const NOISE_TYPES: NoiseType[] = ['perlin', 'worley', 'perlin-worley'];
+
+function voxels(options: NoiseTextureOptions): Uint8Array {
+  const texture = createNoiseTexture3D({ resolution: SIZE, frequency: 4, ...options });
+  const data = (texture.image.data as Uint8Array).slice();
+  releaseNoiseTexture(texture);
+  return data;
+}
+
+function trackDisposal(texture: THREE.Texture): { disposed: boolean } {
+  const state = { disposed: false };
+  texture.addEventListener('dispose', () => { state.disposed = true; });
+  return state;
+}
+
+const at = (data: Uint8Array, x: number, y: number, z: number) => data[(z * SIZE + y) * SIZE + x];
+
+// Largest jump between x neighbors inside the texture and across its x seam
+function steps(data: Uint8Array): { interior: number; seam: number } {
+  let interior = 0;
+  let seam = 0;
+  for (let z = 0; z < SIZE; z++) {
+    for (let y = 0; y < SIZE; y++) {
+      for (let x = 1; x < SIZE; x++) interior = Math.max(interior, Math.abs(at(data, x, y, z) - at(data, x - 1, y, z)));
+      seam = Math.max(seam, Math.abs(at(data, 0, y, z) - at(data, SIZE - 1, y, z)));
+    }
+  }
+  return { interior, seam };
+}
+
+afterEach(() => clearNoiseTextureCache());
+
+describe('createNoiseTexture3D', () => {
+  it('returns the cached texture for the same options', () => {
+    const texture = createNoiseTexture3D({ resolution: SIZE, seed: 7 });
+    expect(createNoiseTexture3D({ resolution: SIZE, seed: 7 })).toBe(texture);
+    releaseNoiseTexture(texture);
+    releaseNoiseTexture(texture);
+  });
+
+  it.each(NOISE_TYPES)('generates the same %s voxels for the same seed', type => {
+    const first = voxels({ type, seed: 42, octaves: 3 });
+    clearNoiseTextureCache();
+    expect(voxels({ type, seed: 42, octaves: 3 })).toEqual(first);
+  });
+
+  it.each(NOISE_TYPES)('generates different %s voxels for different seeds', type => {
+    expect(voxels({ type, seed: 1 })).not.toEqual(voxels({ type, seed: 2 }));
+  });
+
+  it.each(NOISE_TYPES)('wraps %s noise seamlessly when tileable', type => {
+    const { interior, seam } = steps(voxels({ type, octaves: 2, tileable: true }));
+    expect(seam).toBeLessThanOrEqual(interior);
+  });
+
+  it('rounds the frequency of tileable noise so the lattice repeats', () => {
+    expect(voxels({ frequency: 4.4, tileable: true })).toEqual(voxels({ frequency: 4, tileable: true }));
+  });
+
+  it('shows a seam without tiling at a fractional frequency', () => {
+    const { interior, seam } = steps(voxels({ frequency: 4.5, tileable: false }));
+    expect(seam).toBeGreaterThan(interior);
+  });
+});
+
+describe('noise texture cache', () => {
+  it('disposes the least recently used released textures beyond the cache size', () => {
+    const textures = Array.from({ length: NOISE_TEXTURE_CACHE_SIZE + 1 }, (_, seed) => createNoiseTexture3D({ resolution: 4, seed }));
+    const disposal = textures.map(trackDisposal);
+    textures.forEach(texture => releaseNoiseTexture(texture));
+
+    expect(disposal.map(state => state.disposed)).toEqual([true, ...Array(NOISE_TEXTURE_CACHE_SIZE).fill(false)]);
+    expect(createNoiseTexture3D({ resolution: 4, seed: 1 })).toBe(textures[1]);
+    releaseNoiseTexture(textures[1]);
+  });
+
+  it('never evicts a texture that is still in use', () => {
+    const inUse = createNoiseTexture3D({ resolution: 4, seed: 100 });
+    const disposal = trackDisposal(inUse);
+    for (let seed = 0; seed <= NOISE_TEXTURE_CACHE_SIZE; seed++) releaseNoiseTexture(createNoiseTexture3D({ resolution: 4, seed }));
+
+    clearNoiseTextureCache();
+    expect(disposal.disposed).toBe(false);
+    expect(createNoiseTexture3D({ resolution: 4, seed: 100 })).toBe(inUse);
+
+    // One release per call
+    releaseNoiseTexture(inUse);
+    clearNoiseTextureCache();
+    expect(disposal.disposed).toBe(false);
+    releaseNoiseTexture(inUse);
+    clearNoiseTextureCache();
+    expect(disposal.disposed).toBe(true);
+  });
+
+  it('keeps the texture of a volumetric system and frees it once replaced', () => {
+    const system = setupVolumetricLighting(new THREE.Scene(), new THREE.PerspectiveCamera(), {} as THREE.WebGPURenderer, 10, {
+      noise: { resolution: 4, seed: 1 }
+    });
+    const first = system.uniforms!.noiseTexture.value;
+    const disposal = trackDisposal(first);
+
+    clearNoiseTextureCache();
+    expect(disposal.disposed).toBe(false);
+
+    setVolumetricNoise(system, { seed: 2 });
+    clearNoiseTextureCache();
+    expect(disposal.disposed).toBe(true);
+    expect(system.uniforms!.noiseTexture.value).not.toBe(first);
+  });
+});
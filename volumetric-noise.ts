@@ -0,0 +1,235 @@
+import * as THREE from 'three/webgpu';
+
+// ============================================================================
+// CONSTANTS & INTERFACES
+// ============================================================================
+
+export type NoiseType = 'perlin' | 'worley' | 'perlin-worley';
+
+export interface NoiseTextureOptions {
+  resolution?: number; // voxels per side of the cubic texture
+  seed?: number; // same seed always yields the same texture
+  octaves?: number; // fBm octave count, each doubling the frequency
+  persistence?: number; // amplitude multiplier between octaves
+  frequency?: number; // lattice cells across the texture for the first octave
+  type?: NoiseType;
+  tileable?: boolean; // wrap lattice coordinates so the texture repeats seamlessly
+}
+
+export const DEFAULT_NOISE_OPTIONS: Required<NoiseTextureOptions> = {
+  resolution: 128,
+  seed: 1337,
+  octaves: 1,
+  persistence: 0.5,
+  frequency: 50,
+  type: 'perlin',
+  tileable: true
+};
+
+// ============================================================================
+// HASHING & NOISE PRIMITIVES
+// ============================================================================
+
+function hash3(x: number, y: number, z: number, seed: number): number {
+  let h = seed ^ Math.imul(x, 0x8da6b343) ^ Math.imul(y, 0xd8163841) ^ Math.imul(z, 0xcb1ab31f);
+  h = Math.imul(h ^ (h >>> 16), 0x7feb352d);
+  h = Math.imul(h ^ (h >>> 15), 0x846ca68b);
+  return (h ^ (h >>> 16)) >>> 0;
+}
+
+function wrap(i: number, period: number): number {
+  return period > 0 ? ((i % period) + period) % period : i;
+}
+
+function fade(t: number): number {
+  return t * t * t * (t * (t * 6 - 15) + 10);
+}
+
+function lerp(t: number, a: number, b: number): number {
+  return a + t * (b - a);
+}
+
+// Same gradient set as Ken Perlin's improved noise
+function grad(hash: number, x: number, y: number, z: number): number {
+  const h = hash & 15;
+  const u = h < 8 ? x : y;
+  const v = h < 4 ? y : (h === 12 || h === 14 ? x : z);
+  return ((h & 1) === 0 ? u : -u) + ((h & 2) === 0 ? v : -v);
+}
+
+// Gradient noise in roughly [-1, 1]; lattice repeats every `period` cells when period > 0
+function perlin(x: number, y: number, z: number, period: number, seed: number): number {
+  const X = Math.floor(x), Y = Math.floor(y), Z = Math.floor(z);
+  x -= X; y -= Y; z -= Z;
+  const u = fade(x), v = fade(y), w = fade(z);
+
+  const X0 = wrap(X, period), X1 = wrap(X + 1, period);
+  const Y0 = wrap(Y, period), Y1 = wrap(Y + 1, period);
+  const Z0 = wrap(Z, period), Z1 = wrap(Z + 1, period);
+
+  return lerp(w,
+    lerp(v,
+      lerp(u, grad(hash3(X0, Y0, Z0, seed), x, y, z), grad(hash3(X1, Y0, Z0, seed), x - 1, y, z)),
+      lerp(u, grad(hash3(X0, Y1, Z0, seed), x, y - 1, z), grad(hash3(X1, Y1, Z0, seed), x - 1, y - 1, z))),
+    lerp(v,
+      lerp(u, grad(hash3(X0, Y0, Z1, seed), x, y, z - 1), grad(hash3(X1, Y0, Z1, seed), x - 1, y, z - 1)),
+      lerp(u, grad(hash3(X0, Y1, Z1, seed), x, y - 1, z - 1), grad(hash3(X1, Y1, Z1, seed), x - 1, y - 1, z - 1))));
+}
+
+// Inverted F1 cellular noise in [0, 1], one feature point per lattice cell
+function worley(x: number, y: number, z: number, period: number, seed: number): number {
+  const X = Math.floor(x), Y = Math.floor(y), Z = Math.floor(z);
+  let minDistSq = Infinity;
+
+  for (let dz = -1; dz <= 1; dz++) {
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        const cx = X + dx, cy = Y + dy, cz = Z + dz;
+        const h = hash3(wrap(cx, period), wrap(cy, period), wrap(cz, period), seed);
+        const fx = cx + (h & 0x3ff) / 0x3ff;
+        const fy = cy + ((h >>> 10) & 0x3ff) / 0x3ff;
+        const fz = cz + ((h >>> 20) & 0x3ff) / 0x3ff;
+        const distSq = (fx - x) ** 2 + (fy - y) ** 2 + (fz - z) ** 2;
+        if (distSq < minDistSq) minDistSq = distSq;
+      }
+    }
+  }
+
+  return 1 - Math.min(1, Math.sqrt(minDistSq));
+}
+
+function fbm(
+  sample: (x: number, y: number, z: number, period: number, seed: number) => number,
+  x: number, y: number, z: number,
+  options: Required<NoiseTextureOptions>
+): number {
+  let sum = 0;
+  let amplitude = 1;
+  let totalAmplitude = 0;
+  let frequency = options.frequency;
+
+  for (let octave = 0; octave < options.octaves; octave++) {
+    const period = options.tileable ? Math.round(frequency) : 0;
+    sum += amplitude * sample(x * frequency, y * frequency, z * frequency, period, options.seed + octave);
+    totalAmplitude += amplitude;
+    amplitude *= options.persistence;
+    frequency *= 2;
+  }
+
+  return sum / totalAmplitude;
+}
+
+// Returns density in [0, 1] for normalized texture coordinates
+function sampleDensity(x: number, y: number, z: number, options: Required<NoiseTextureOptions>): number {
+  switch (options.type) {
+    case 'worley':
+      return fbm(worley, x, y, z, options);
+    case 'perlin-worley': {
+      // Billowy Perlin eroded by Worley cells, as used for cloud shapes
+      const p = 0.5 + 0.5 * fbm(perlin, x, y, z, options);
+      const w = fbm(worley, x, y, z, options);
+      return THREE.MathUtils.clamp((p - w + 1) / (2 - w), 0, 1);
+    }
+    case 'perlin':
+    default:
+      return 0.5 + 0.5 * fbm(perlin, x, y, z, options);
+  }
+}
+
+// ============================================================================
+// TEXTURE GENERATION & CACHE
+// ============================================================================
+
+// Unused textures kept around, so switching back to recent options is free
+export const NOISE_TEXTURE_CACHE_SIZE = 4;
+
+interface CachedNoiseTexture {
+  texture: THREE.Data3DTexture;
+  users: number; // calls to createNoiseTexture3D not yet released
+}
+
+// Least recently used first
+const textureCache = new Map<string, CachedNoiseTexture>();
+
+function resolveOptions(options: NoiseTextureOptions): Required<NoiseTextureOptions> {
+  const resolved = { ...DEFAULT_NOISE_OPTIONS, ...options };
+  resolved.resolution = Math.max(2, Math.floor(resolved.resolution));
+  resolved.octaves = Math.max(1, Math.floor(resolved.octaves));
+  resolved.seed = Math.floor(resolved.seed) | 0;
+  // Integer frequencies keep every octave periodic over the texture
+  if (resolved.tileable) resolved.frequency = Math.max(1, Math.round(resolved.frequency));
+  return resolved;
+}
+
+function generateNoiseTexture3D(options: Required<NoiseTextureOptions>): THREE.Data3DTexture {
+  let i = 0;
+  const size = options.resolution;
+  const data = new Uint8Array(size * size * size);
+
+  for (let z = 0; z < size; z++) {
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        const density = sampleDensity(x / size, y / size, z / size, options);
+        data[i] = Math.min(255, Math.max(0, Math.round(density * 255)));
+        i++;
+      }
+    }
+  }
+
+  const texture = new THREE.Data3DTexture(data, size, size, size);
+  texture.format = THREE.RedFormat;
+  texture.minFilter = THREE.LinearFilter;
+  texture.magFilter = THREE.LinearFilter;
+  texture.wrapS = THREE.RepeatWrapping;
+  texture.wrapT = THREE.RepeatWrapping;
+  texture.wrapR = THREE.RepeatWrapping;
+  texture.unpackAlignment = 1;
+  texture.needsUpdate = true;
+
+  return texture;
+}
+
+// Disposes the least recently used textures nobody holds until at most `keep` are left
+function evictUnusedTextures(keep: number): void {
+  let unused = 0;
+  textureCache.forEach(entry => { if (entry.users === 0) unused++; });
+  for (const [key, entry] of textureCache) {
+    if (unused <= keep) break;
+    if (entry.users > 0) continue;
+    entry.texture.dispose();
+    textureCache.delete(key);
+    unused--;
+  }
+}
+
+/**
+ * Returns a 3D density noise texture for the given options. Textures are cached by
+ * their resolved options, so repeated calls with the same configuration are free.
+ * Every call counts as a user of the texture until releaseNoiseTexture; released
+ * textures stay cached up to NOISE_TEXTURE_CACHE_SIZE and are then disposed.
+ */
+export function createNoiseTexture3D(options: NoiseTextureOptions = {}): THREE.Data3DTexture {
+  const resolved = resolveOptions(options);
+  const key = JSON.stringify(resolved);
+
+  let entry = textureCache.get(key);
+  if (entry) textureCache.delete(key); // re-added below as the most recently used
+  else entry = { texture: generateNoiseTexture3D(resolved), users: 0 };
+  entry.users++;
+  textureCache.set(key, entry);
+  return entry.texture;
+}
+
+export function releaseNoiseTexture(texture: THREE.Texture): void {
+  for (const entry of textureCache.values()) {
+    if (entry.texture !== texture) continue;
+    entry.users = Math.max(0, entry.users - 1);
+    break;
+  }
+  evictUnusedTextures(NOISE_TEXTURE_CACHE_SIZE);
+}
+
+// Disposes every cached texture that is no longer in use
+export function clearNoiseTextureCache(): void {
+  evictUnusedTextures(0);
+}
@@ -0,0 +1,153 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import * as THREE from 'three/webgpu';
+import { addDensityVolume, addVolumetricSunLight, setupVolumetricLighting, VolumetricLightingSystem } from './volumetric-lighting.js';
+import { applyPreset, exportPreset, parsePreset, readPreset, VolumetricPreset, VolumetricPresetError } from './volumetric-presets.js';
+
+let scene: THREE.Scene;
+let system: VolumetricLightingSystem;
+
+// Nothing is rendered, so the renderer is never touched
+beforeEach(() => {
+  scene = new THREE.Scene();
+  system = setupVolumetricLighting(scene, new THREE.PerspectiveCamera(), {} as THREE.WebGPURenderer, 10, {
+    noise: { resolution: 8 }
+  });
+});
+
+const copy = (preset: VolumetricPreset): any => JSON.parse(JSON.stringify(preset));
+
+function issuesOf(value: unknown): string[] {
+  try {
+    readPreset(value);
+  } catch (error) {
+    expect(error).toBeInstanceOf(VolumetricPresetError);
+    return (error as VolumetricPresetError).issues;
+  }
+  throw new Error('expected the preset to be rejected');
+}
+
+describe('preset validation', () => {
+  it('accepts an exported preset and returns an equal copy', () => {
+    const preset = exportPreset(system, 'cathedral');
+    const read = readPreset(copy(preset));
+    expect(read).toEqual(preset);
+    expect(read).not.toBe(preset);
+  });
+
+  it('survives a trip through JSON', () => {
+    const preset = exportPreset(system, 'cathedral');
+    expect(parsePreset(JSON.stringify(preset))).toEqual(preset);
+  });
+
+  it('rejects other versions with a reason', () => {
+    const preset = copy(exportPreset(system));
+    preset.version = 2;
+    expect(() => readPreset(preset)).toThrow(/saved by a newer version/);
+    preset.version = undefined;
+    expect(() => readPreset(preset)).toThrow(/not a volumetric preset/);
+  });
+
+  it('reports every problem with its path', () => {
+    const preset = copy(exportPreset(system));
+    preset.quality = 'extreme';
+    preset.uniforms.volumetricResolution = 2;
+    preset.lights[0].enabled = 'yes';
+    preset.lights[0].color = 'red';
+    preset.volumes[0].size = [1, 0, 1];
+    delete preset.noise.seed;
+
+    expect(issuesOf(preset)).toEqual([
+      'preset.quality: expected one of "low", "medium", "high", "ultra", got "extreme"',
+      'preset.uniforms.volumetricResolution: expected a number in [0.1, 1], got 2',
+      'preset.noise.seed: expected an integer in [-2147483648, 2147483647], got nothing',
+      'preset.lights[0].enabled: expected true or false, got "yes"',
+      'preset.lights[0].color: expected a hex color like "#ffeac7", got "red"',
+      'preset.volumes[0].size: every extent must be greater than 0'
+    ]);
+  });
+
+  it('rejects a preset without volumes', () => {
+    const preset = copy(exportPreset(system));
+    preset.volumes = [];
+    expect(issuesOf(preset)).toEqual(['preset.volumes: expected a non-empty array, got []']);
+  });
+
+  it('rejects more than one directional light', () => {
+    const preset = copy(exportPreset(system));
+    const sun = { ...preset.lights[1], type: 'directional', cascades: { count: 4, maxFar: 'auto', mode: 'practical', lightMargin: 100 } };
+    delete sun.angle;
+    delete sun.penumbra;
+    preset.lights.push(sun, sun);
+    expect(issuesOf(preset)).toEqual(['preset.lights: at most one directional light is supported']);
+  });
+
+  it('reports malformed JSON as a preset error', () => {
+    expect(() => parsePreset('{ "version": 1,')).toThrow(VolumetricPresetError);
+  });
+});
+
+describe('applyPreset', () => {
+  it('round-trips an exported preset', () => {
+    const preset = copy(exportPreset(system, 'custom'));
+    preset.quality = 'low';
+    preset.uniforms.volumetricResolution = 0.6; // not the low tier's own resolution
+    preset.uniforms.anisotropy = 0.4;
+    preset.lights[0].intensity = 12;
+    preset.lights[1].enabled = false;
+    preset.volumes.push({ ...preset.volumes[0], shape: 'sphere', position: [3, 2, 1], density: 0.2 });
+
+    applyPreset(system, preset);
+    expect(exportPreset(system, 'custom')).toEqual(readPreset(preset));
+  });
+
+  it('updates lights of the same type in place', () => {
+    const { pointLight, spotLight } = system;
+    const preset = copy(exportPreset(system));
+    preset.lights.reverse();
+
+    applyPreset(system, preset);
+    expect(system.lights!.map(entry => entry.light)).toEqual([spotLight, pointLight]);
+    expect(system.spotLight).toBe(spotLight);
+    expect(system.pointLight).toBe(pointLight);
+    expect(exportPreset(system)).toEqual(readPreset(preset));
+  });
+
+  it('keeps hidden lights hidden on a fresh system', () => {
+    addVolumetricSunLight(system, scene)!.visible = false;
+    const preset = exportPreset(system);
+
+    const fresh = setupVolumetricLighting(new THREE.Scene(), new THREE.PerspectiveCamera(), {} as THREE.WebGPURenderer, 10, {
+      noise: { resolution: 8 }
+    });
+    applyPreset(fresh, preset);
+    expect(fresh.sunLight?.visible).toBe(false);
+    expect(fresh.spotLight?.visible).toBe(true);
+  });
+
+  it('reads presets without light visibility as all lights on', () => {
+    const preset = copy(exportPreset(system));
+    preset.lights.forEach((light: any) => delete light.enabled);
+    expect(readPreset(preset).lights.every(light => light.enabled)).toBe(true);
+  });
+
+  it('leaves the system untouched when the preset is invalid', () => {
+    const before = exportPreset(system);
+    const preset = copy(before);
+    preset.uniforms.anisotropy = 0.5;
+    preset.lights[0].intensity = -1;
+
+    expect(() => applyPreset(system, preset)).toThrow(VolumetricPresetError);
+    expect(exportPreset(system)).toEqual(before);
+  });
+
+  it('keeps the default volume when removing surplus ones', () => {
+    const defaultMesh = system.volumetricMesh;
+    addDensityVolume(system, scene);
+    const preset = copy(exportPreset(system));
+    preset.volumes.pop();
+
+    applyPreset(system, preset);
+    expect(system.volumes).toHaveLength(1);
+    expect(system.volumes![0].mesh).toBe(defaultMesh);
+  });
+});
@@ -0,0 +1,620 @@
+import * as THREE from 'three/webgpu';
+import {
+  addDensityVolume,
+  addVolumetricLight,
+  addVolumetricSunLight,
+  applyVolumetricQuality,
+  getVolumetricSunLightOptions,
+  removeDensityVolume,
+  removeVolumetricLight,
+  setVolumetricDenoiseMode,
+  setVolumetricNoise,
+  VolumetricLight,
+  VolumetricLightingSystem,
+  VolumetricDenoiseMode,
+  VolumetricQualityTier,
+  VolumeShape,
+  VOLUME_SHAPES,
+  VOLUMETRIC_DENOISE_MODES,
+  VOLUMETRIC_QUALITY_TIER_NAMES
+} from './volumetric-lighting.js';
+import { DEFAULT_NOISE_OPTIONS, NoiseType } from './volumetric-noise.js';
+
+// ============================================================================
+// PRESET FORMAT
+// ============================================================================
+
+// Bump when the format changes incompatibly and add a migration in readPreset
+export const VOLUMETRIC_PRESET_VERSION = 1;
+
+export type PresetVector3 = [number, number, number];
+
+export type PresetLightType = 'point' | 'spot' | 'directional';
+
+const PRESET_LIGHT_TYPES: PresetLightType[] = ['point', 'spot', 'directional'];
+const NOISE_TYPES: NoiseType[] = ['perlin', 'worley', 'perlin-worley'];
+const CASCADE_MODES = ['uniform', 'logarithmic', 'practical'] as const;
+
+export interface PresetShadow {
+  enabled: boolean;
+  mapSize: number;
+  bias: number;
+  normalBias: number;
+  intensity: number;
+  radius: number;
+  near: number;
+  far: number;
+}
+
+export interface PresetCascades {
+  count: number;
+  maxFar: number | 'auto'; // 'auto' follows the density volumes
+  mode: typeof CASCADE_MODES[number];
+  lightMargin: number;
+}
+
+export interface PresetLight {
+  type: PresetLightType;
+  enabled: boolean; // light.visible
+  position: PresetVector3;
+  target?: PresetVector3; // spot and directional lights
+  color: string; // '#rrggbb'
+  intensity: number;
+  contribution: number;
+  animated: boolean;
+  distance?: number; // point and spot lights
+  decay?: number; // point and spot lights
+  angle?: number; // spot lights, radians
+  penumbra?: number; // spot lights
+  shadow: PresetShadow;
+  cascades?: PresetCascades; // directional lights
+}
+
+export interface PresetVolume {
+  shape: VolumeShape;
+  size: PresetVector3; // width, height, depth
+  position: PresetVector3;
+  rotation: PresetVector3; // XYZ Euler angles in radians
+  density: number;
+  smokeAmount: number;
+  noiseScale: number;
+  wind: PresetVector3;
+}
+
+export interface PresetUniforms {
+  smokeAmount: number;
+  volumetricLightingIntensity: number;
+  denoiseStrength: number;
+  upsampleDepthSigma: number;
+  volumetricResolution: number;
+  temporalBlend: number;
+  windDirection: PresetVector3;
+  windSpeed: number;
+  turbulence: number;
+  octaveDrift: PresetVector3;
+  heightFalloff: number;
+  edgeSoftness: number;
+  anisotropy: number;
+  backAnisotropy: number;
+  backScatter: number;
+}
+
+export interface PresetNoise {
+  resolution: number;
+  seed: number;
+  octaves: number;
+  persistence: number;
+  frequency: number;
+  type: NoiseType;
+  tileable: boolean;
+}
+
+/**
+ * Serializable snapshot of a volumetric lighting setup. Light cookies and
+ * runtime state such as the fog clock are not part of a preset.
+ */
+export interface VolumetricPreset {
+  version: typeof VOLUMETRIC_PRESET_VERSION;
+  name: string;
+  quality: VolumetricQualityTier;
+  denoiseMode: VolumetricDenoiseMode;
+  uniforms: PresetUniforms;
+  noise: PresetNoise;
+  lights: PresetLight[];
+  volumes: PresetVolume[];
+}
+
+export class VolumetricPresetError extends Error {
+  // One entry per problem, prefixed with the path of the offending field
+  issues: string[];
+
+  constructor(message: string, issues: string[] = []) {
+    super(issues.length ? `${message}:\n  ${issues.join('\n  ')}` : message);
+    this.name = 'VolumetricPresetError';
+    this.issues = issues;
+  }
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+// Collects every problem in one pass so artists can fix a file in one go
+class PresetReader {
+  issues: string[] = [];
+
+  private fail(path: string, expected: string, value: unknown): void {
+    const got = value === undefined ? 'nothing' : JSON.stringify(value);
+    this.issues.push(`${path}: expected ${expected}, got ${got}`);
+  }
+
+  object(value: unknown, path: string): Record<string, unknown> {
+    if (typeof value === 'object' && value !== null && !Array.isArray(value)) return value as Record<string, unknown>;
+    this.fail(path, 'an object', value);
+    return {};
+  }
+
+  array(value: unknown, path: string, nonEmpty = false): unknown[] {
+    if (Array.isArray(value) && (value.length > 0 || !nonEmpty)) return value;
+    this.fail(path, nonEmpty ? 'a non-empty array' : 'an array', value);
+    return [];
+  }
+
+  number(value: unknown, path: string, min = -Infinity, max = Infinity): number {
+    if (typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max) return value;
+    const range = min === -Infinity && max === Infinity ? '' : ` in [${min}, ${max}]`;
+    this.fail(path, `a number${range}`, value);
+    return Math.min(Math.max(0, min), max);
+  }
+
+  integer(value: unknown, path: string, min: number, max: number): number {
+    if (typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max) return value;
+    this.fail(path, `an integer in [${min}, ${max}]`, value);
+    return min;
+  }
+
+  boolean(value: unknown, path: string): boolean {
+    if (typeof value === 'boolean') return value;
+    this.fail(path, 'true or false', value);
+    return false;
+  }
+
+  string(value: unknown, path: string): string {
+    if (typeof value === 'string') return value;
+    this.fail(path, 'a string', value);
+    return '';
+  }
+
+  oneOf<T extends string>(value: unknown, path: string, options: readonly T[]): T {
+    if (options.includes(value as T)) return value as T;
+    this.fail(path, `one of ${options.map(option => `"${option}"`).join(', ')}`, value);
+    return options[0];
+  }
+
+  color(value: unknown, path: string): string {
+    if (typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value)) return value.toLowerCase();
+    this.fail(path, 'a hex color like "#ffeac7"', value);
+    return '#ffffff';
+  }
+
+  vector3(value: unknown, path: string): PresetVector3 {
+    if (Array.isArray(value) && value.length === 3 && value.every(v => typeof v === 'number' && Number.isFinite(v))) {
+      return [value[0], value[1], value[2]];
+    }
+    this.fail(path, 'an [x, y, z] array of numbers', value);
+    return [0, 0, 0];
+  }
+}
+
+function readShadow(reader: PresetReader, value: unknown, path: string): PresetShadow {
+  const shadow = reader.object(value, path);
+  return {
+    enabled: reader.boolean(shadow.enabled, `${path}.enabled`),
+    mapSize: reader.integer(shadow.mapSize, `${path}.mapSize`, 16, 16384),
+    bias: reader.number(shadow.bias, `${path}.bias`, -1, 1),
+    normalBias: reader.number(shadow.normalBias, `${path}.normalBias`, -1, 1),
+    intensity: reader.number(shadow.intensity, `${path}.intensity`, 0, 1),
+    radius: reader.number(shadow.radius, `${path}.radius`, 0),
+    near: reader.number(shadow.near, `${path}.near`, 0),
+    far: reader.number(shadow.far, `${path}.far`, 0)
+  };
+}
+
+function readLight(reader: PresetReader, value: unknown, path: string): PresetLight {
+  const light = reader.object(value, path);
+  const type = reader.oneOf(light.type, `${path}.type`, PRESET_LIGHT_TYPES);
+
+  const result: PresetLight = {
+    type,
+    // Presets saved before lights could be switched off have every light on
+    enabled: light.enabled === undefined || reader.boolean(light.enabled, `${path}.enabled`),
+    position: reader.vector3(light.position, `${path}.position`),
+    color: reader.color(light.color, `${path}.color`),
+    intensity: reader.number(light.intensity, `${path}.intensity`, 0),
+    contribution: reader.number(light.contribution, `${path}.contribution`, 0),
+    animated: reader.boolean(light.animated, `${path}.animated`),
+    shadow: readShadow(reader, light.shadow, `${path}.shadow`)
+  };
+
+  if (type !== 'point') result.target = reader.vector3(light.target, `${path}.target`);
+  if (type !== 'directional') {
+    result.distance = reader.number(light.distance, `${path}.distance`, 0);
+    result.decay = reader.number(light.decay, `${path}.decay`, 0);
+  }
+  if (type === 'spot') {
+    result.angle = reader.number(light.angle, `${path}.angle`, 0, Math.PI / 2);
+    result.penumbra = reader.number(light.penumbra, `${path}.penumbra`, 0, 1);
+  }
+  if (type === 'directional') {
+    const cascades = reader.object(light.cascades, `${path}.cascades`);
+    result.cascades = {
+      count: reader.integer(cascades.count, `${path}.cascades.count`, 1, 8),
+      maxFar: cascades.maxFar === 'auto' ? 'auto' : reader.number(cascades.maxFar, `${path}.cascades.maxFar`, 0),
+      mode: reader.oneOf(cascades.mode, `${path}.cascades.mode`, CASCADE_MODES),
+      lightMargin: reader.number(cascades.lightMargin, `${path}.cascades.lightMargin`, 0)
+    };
+  }
+
+  return result;
+}
+
+function readVolume(reader: PresetReader, value: unknown, path: string): PresetVolume {
+  const volume = reader.object(value, path);
+  const size = reader.vector3(volume.size, `${path}.size`);
+  if (size.some(extent => extent <= 0)) reader.issues.push(`${path}.size: every extent must be greater than 0`);
+
+  return {
+    shape: reader.oneOf(volume.shape, `${path}.shape`, VOLUME_SHAPES),
+    size,
+    position: reader.vector3(volume.position, `${path}.position`),
+    rotation: reader.vector3(volume.rotation, `${path}.rotation`),
+    density: reader.number(volume.density, `${path}.density`, 0),
+    smokeAmount: reader.number(volume.smokeAmount, `${path}.smokeAmount`, 0),
+    noiseScale: reader.number(volume.noiseScale, `${path}.noiseScale`, 0),
+    wind: reader.vector3(volume.wind, `${path}.wind`)
+  };
+}
+
+/**
+ * Checks an untrusted value (typically parsed JSON) against the preset schema
+ * and returns a typed copy. Throws a VolumetricPresetError listing every
+ * problem found, with the path of each offending field.
+ */
+export function readPreset(value: unknown): VolumetricPreset {
+  const reader = new PresetReader();
+  const preset = reader.object(value, 'preset');
+
+  if (preset.version !== VOLUMETRIC_PRESET_VERSION) {
+    const detail = typeof preset.version === 'number' && preset.version > VOLUMETRIC_PRESET_VERSION
+      ? 'it was saved by a newer version' : 'it is not a volumetric preset or is corrupted';
+    throw new VolumetricPresetError(
+      `Unsupported preset version ${JSON.stringify(preset.version)} (expected ${VOLUMETRIC_PRESET_VERSION}); ${detail}`);
+  }
+
+  const uniforms = reader.object(preset.uniforms, 'preset.uniforms');
+  const noise = reader.object(preset.noise, 'preset.noise');
+  const path = (key: string) => `preset.uniforms.${key}`;
+
+  const result: VolumetricPreset = {
+    version: VOLUMETRIC_PRESET_VERSION,
+    name: reader.string(preset.name, 'preset.name'),
+    quality: reader.oneOf(preset.quality, 'preset.quality', VOLUMETRIC_QUALITY_TIER_NAMES),
+    denoiseMode: reader.oneOf(preset.denoiseMode, 'preset.denoiseMode', VOLUMETRIC_DENOISE_MODES),
+    uniforms: {
+      smokeAmount: reader.number(uniforms.smokeAmount, path('smokeAmount'), 0),
+      volumetricLightingIntensity: reader.number(uniforms.volumetricLightingIntensity, path('volumetricLightingIntensity'), 0),
+      denoiseStrength: reader.number(uniforms.denoiseStrength, path('denoiseStrength'), 0),
+      upsampleDepthSigma: reader.number(uniforms.upsampleDepthSigma, path('upsampleDepthSigma'), 0),
+      volumetricResolution: reader.number(uniforms.volumetricResolution, path('volumetricResolution'), 0.1, 1),
+      temporalBlend: reader.number(uniforms.temporalBlend, path('temporalBlend'), 0, 1),
+      windDirection: reader.vector3(uniforms.windDirection, path('windDirection')),
+      windSpeed: reader.number(uniforms.windSpeed, path('windSpeed'), 0),
+      turbulence: reader.number(uniforms.turbulence, path('turbulence'), 0),
+      octaveDrift: reader.vector3(uniforms.octaveDrift, path('octaveDrift')),
+      heightFalloff: reader.number(uniforms.heightFalloff, path('heightFalloff'), 0),
+      edgeSoftness: reader.number(uniforms.edgeSoftness, path('edgeSoftness'), 0),
+      anisotropy: reader.number(uniforms.anisotropy, path('anisotropy'), -0.99, 0.99),
+      backAnisotropy: reader.number(uniforms.backAnisotropy, path('backAnisotropy'), -0.99, 0.99),
+      backScatter: reader.number(uniforms.backScatter, path('backScatter'), 0, 1)
+    },
+    noise: {
+      resolution: reader.integer(noise.resolution, 'preset.noise.resolution', 2, 256),
+      seed: reader.integer(noise.seed, 'preset.noise.seed', -(2 ** 31), 2 ** 31 - 1),
+      octaves: reader.integer(noise.octaves, 'preset.noise.octaves', 1, 8),
+      persistence: reader.number(noise.persistence, 'preset.noise.persistence', 0, 1),
+      frequency: reader.number(noise.frequency, 'preset.noise.frequency', 0),
+      type: reader.oneOf(noise.type, 'preset.noise.type', NOISE_TYPES),
+      tileable: reader.boolean(noise.tileable, 'preset.noise.tileable')
+    },
+    lights: reader.array(preset.lights, 'preset.lights').map((light, i) => readLight(reader, light, `preset.lights[${i}]`)),
+    // The first volume is the default one the fog controls drive, so it has to stay
+    volumes: reader.array(preset.volumes, 'preset.volumes', true).map((volume, i) => readVolume(reader, volume, `preset.volumes[${i}]`))
+  };
+
+  if (result.lights.filter(light => light.type === 'directional').length > 1) {
+    reader.issues.push('preset.lights: at most one directional light is supported');
+  }
+
+  if (reader.issues.length) throw new VolumetricPresetError(`Invalid volumetric preset "${result.name}"`, reader.issues);
+  return result;
+}
+
+// Parses preset JSON, reporting syntax errors the same way as schema errors
+export function parsePreset(json: string): VolumetricPreset {
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch (error) {
+    throw new VolumetricPresetError(`Preset is not valid JSON: ${(error as Error).message}`);
+  }
+  return readPreset(value);
+}
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+const toVector = (v: THREE.Vector3Like): PresetVector3 => [v.x, v.y, v.z];
+
+function lightType(light: VolumetricLight): PresetLightType {
+  if (light instanceof THREE.DirectionalLight) return 'directional';
+  return light instanceof THREE.SpotLight ? 'spot' : 'point';
+}
+
+function exportLight(system: VolumetricLightingSystem, light: VolumetricLight, contribution: number, animated: boolean): PresetLight {
+  const { shadow } = light;
+  const camera = shadow.camera as THREE.PerspectiveCamera | THREE.OrthographicCamera;
+  const result: PresetLight = {
+    type: lightType(light),
+    enabled: light.visible,
+    position: toVector(light.position),
+    color: `#${light.color.getHexString()}`,
+    intensity: light.intensity,
+    contribution,
+    animated,
+    shadow: {
+      enabled: light.castShadow,
+      mapSize: shadow.mapSize.x,
+      bias: shadow.bias,
+      normalBias: shadow.normalBias,
+      intensity: shadow.intensity,
+      radius: shadow.radius,
+      near: camera.near,
+      far: camera.far
+    }
+  };
+
+  if (!(light instanceof THREE.PointLight)) result.target = toVector(light.target.position);
+  if (!(light instanceof THREE.DirectionalLight)) {
+    result.distance = light.distance;
+    result.decay = light.decay;
+  }
+  if (light instanceof THREE.SpotLight) {
+    result.angle = light.angle;
+    result.penumbra = light.penumbra;
+  }
+  if (light instanceof THREE.DirectionalLight) {
+    const sun = light === system.sunLight ? getVolumetricSunLightOptions(system) : null;
+    result.cascades = {
+      count: sun?.cascades ?? 4,
+      maxFar: sun?.maxFar ?? 'auto',
+      mode: sun?.mode === 'custom' ? 'practical' : sun?.mode ?? 'practical',
+      lightMargin: sun?.lightMargin ?? 100
+    };
+  }
+
+  return result;
+}
+
+export function exportPreset(system: VolumetricLightingSystem, name = 'untitled'): VolumetricPreset {
+  const { uniforms, lights, volumes } = system;
+  if (!uniforms || !lights || !volumes) {
+    throw new VolumetricPresetError('Cannot export a preset from a volumetric system that has been cleaned up');
+  }
+
+  const noise = { ...DEFAULT_NOISE_OPTIONS, ...system.noiseOptions };
+
+  return {
+    version: VOLUMETRIC_PRESET_VERSION,
+    name,
+    quality: system.qualityTier ?? 'high',
+    denoiseMode: system.denoiseMode ?? 'blur',
+    uniforms: {
+      smokeAmount: uniforms.smokeAmount.value,
+      volumetricLightingIntensity: uniforms.volumetricLightingIntensity.value,
+      denoiseStrength: uniforms.denoiseStrength.value,
+      upsampleDepthSigma: uniforms.upsampleDepthSigma.value,
+      volumetricResolution: uniforms.volumetricResolution.value,
+      temporalBlend: uniforms.temporalBlend.value,
+      windDirection: toVector(uniforms.windDirection.value),
+      windSpeed: uniforms.windSpeed.value,
+      turbulence: uniforms.turbulence.value,
+      octaveDrift: toVector(uniforms.octaveDrift.value),
+      heightFalloff: uniforms.heightFalloff.value,
+      edgeSoftness: uniforms.edgeSoftness.value,
+      anisotropy: uniforms.anisotropy.value,
+      backAnisotropy: uniforms.backAnisotropy.value,
+      backScatter: uniforms.backScatter.value
+    },
+    noise: {
+      resolution: noise.resolution,
+      seed: noise.seed,
+      octaves: noise.octaves,
+      persistence: noise.persistence,
+      frequency: noise.frequency,
+      type: noise.type,
+      tileable: noise.tileable
+    },
+    // Drifting lights are saved at their home position, not wherever the animation left them
+    lights: lights.map(({ light, contribution, animated, home }) => {
+      const preset = exportLight(system, light, contribution.value, animated);
+      if (animated) preset.position = toVector(home);
+      return preset;
+    }),
+    volumes: volumes.map(volume => ({
+      shape: volume.shape,
+      size: [volume.width, volume.height, volume.depth],
+      position: toVector(volume.mesh.position),
+      rotation: [volume.mesh.rotation.x, volume.mesh.rotation.y, volume.mesh.rotation.z],
+      density: volume.uniforms.density.value,
+      smokeAmount: volume.uniforms.smokeAmount.value,
+      noiseScale: volume.uniforms.noiseScale.value,
+      wind: toVector(volume.uniforms.wind.value)
+    }))
+  };
+}
+
+// ============================================================================
+// APPLY
+// ============================================================================
+
+function createLight(type: PresetLightType): THREE.PointLight | THREE.SpotLight {
+  const light = type === 'spot' ? new THREE.SpotLight() : new THREE.PointLight();
+  light.castShadow = true;
+  return light;
+}
+
+function applyLightSettings(light: VolumetricLight, preset: PresetLight): void {
+  light.visible = preset.enabled;
+  light.position.fromArray(preset.position);
+  light.color.set(preset.color);
+  light.intensity = preset.intensity;
+  if (preset.target && !(light instanceof THREE.PointLight)) light.target.position.fromArray(preset.target);
+
+  if (!(light instanceof THREE.DirectionalLight)) {
+    light.distance = preset.distance ?? light.distance;
+    light.decay = preset.decay ?? light.decay;
+  }
+  if (light instanceof THREE.SpotLight) {
+    light.angle = preset.angle ?? light.angle;
+    light.penumbra = preset.penumbra ?? light.penumbra;
+  }
+
+  const { shadow } = preset;
+  light.castShadow = shadow.enabled;
+  light.shadow.mapSize.setScalar(shadow.mapSize);
+  light.shadow.bias = shadow.bias;
+  light.shadow.normalBias = shadow.normalBias;
+  light.shadow.intensity = shadow.intensity;
+  light.shadow.radius = shadow.radius;
+  light.shadow.camera.near = shadow.near;
+  light.shadow.camera.far = shadow.far;
+  light.shadow.camera.updateProjectionMatrix();
+}
+
+// Cascade layout is fixed when the sun is created, so a different one needs a new sun
+function canReuseLight(system: VolumetricLightingSystem, light: VolumetricLight, preset: PresetLight): boolean {
+  if (lightType(light) !== preset.type) return false;
+  if (preset.type !== 'directional') return true;
+
+  const sun = light === system.sunLight ? getVolumetricSunLightOptions(system) : null;
+  const cascades = preset.cascades!;
+  return !!sun && sun.cascades === cascades.count && sun.mode === cascades.mode &&
+    sun.lightMargin === cascades.lightMargin && (sun.maxFar ?? 'auto') === cascades.maxFar;
+}
+
+function applyLights(system: VolumetricLightingSystem, scene: THREE.Scene, presets: PresetLight[]): void {
+  const unmatched = [...system.lights!];
+
+  // Update the first unused light of each preset's type in place, so references
+  // held by GUIs and animations stay valid; replace only what can't be reused
+  const reused = presets.map(preset => {
+    const index = unmatched.findIndex(entry => canReuseLight(system, entry.light, preset));
+    return index === -1 ? null : unmatched.splice(index, 1)[0].light;
+  });
+  for (const { light } of unmatched) removeVolumetricLight(system, scene, light);
+
+  const lights = presets.map((preset, i) => {
+    let light = reused[i];
+    if (!light && preset.type === 'directional') {
+      const cascades = preset.cascades!;
+      light = addVolumetricSunLight(system, scene, {
+        cascades: cascades.count,
+        maxFar: cascades.maxFar === 'auto' ? undefined : cascades.maxFar,
+        mode: cascades.mode,
+        lightMargin: cascades.lightMargin
+      })!;
+    } else if (!light) {
+      light = createLight(preset.type);
+      addVolumetricLight(system, scene, light);
+      if (light instanceof THREE.SpotLight && !system.spotLight) system.spotLight = light;
+      if (light instanceof THREE.PointLight && !system.pointLight) system.pointLight = light;
+    }
+
+    applyLightSettings(light, preset);
+    const entry = addVolumetricLight(system, scene, light, { contribution: preset.contribution, animated: preset.animated })!;
+    entry.home.copy(light.position);
+    // Keep the move from reading as a manual drag in animateVolumetricLights
+    system.animationControl?.lastManualPositions.get(light)?.copy(light.position);
+    return light;
+  });
+
+  // Same order as the preset, so exporting it again gives the same file
+  system.lights!.sort((a, b) => lights.indexOf(a.light) - lights.indexOf(b.light));
+}
+
+function applyVolumes(system: VolumetricLightingSystem, scene: THREE.Scene, presets: PresetVolume[]): void {
+  const volumes = system.volumes!;
+  for (const volume of volumes.slice(presets.length)) removeDensityVolume(system, scene, volume);
+
+  presets.forEach((preset, i) => {
+    const volume = volumes[i] ?? addDensityVolume(system, scene)!;
+    const [width, height, depth] = preset.size;
+    Object.assign(volume, { shape: preset.shape, width, height, depth });
+    volume.updateGeometry();
+    volume.mesh.position.fromArray(preset.position);
+    volume.mesh.rotation.set(preset.rotation[0], preset.rotation[1], preset.rotation[2]);
+    volume.uniforms.density.value = preset.density;
+    volume.uniforms.smokeAmount.value = preset.smokeAmount;
+    volume.uniforms.noiseScale.value = preset.noiseScale;
+    volume.uniforms.wind.value.fromArray(preset.wind);
+
+    // The default volume is also driven by volumeControl
+    if (volume.mesh === system.volumetricMesh && system.volumeControl) {
+      Object.assign(system.volumeControl, {
+        shape: preset.shape,
+        width,
+        height,
+        depth,
+        positionX: preset.position[0],
+        positionY: preset.position[1],
+        positionZ: preset.position[2]
+      });
+    }
+  });
+}
+
+/**
+ * Validates a preset and applies it to the system. Lights are matched by type
+ * and volumes by order: existing ones are updated in place, missing ones
+ * created and surplus ones removed. A sun with a different cascade layout is
+ * replaced too, so callers holding on to lights should read system.spotLight
+ * and system.sunLight again afterwards.
+ * Nothing is changed when validation fails.
+ */
+export function applyPreset(system: VolumetricLightingSystem, value: unknown): VolumetricPreset {
+  const preset = readPreset(value);
+  const { uniforms, lights, volumes } = system;
+  if (!uniforms || !lights || !volumes) {
+    throw new VolumetricPresetError('Cannot apply a preset to a volumetric system that has been cleaned up');
+  }
+  const scene: THREE.Scene = uniforms.scenePass.scene;
+
+  // Before the uniforms so an explicit volumetric resolution wins over the tier's
+  applyVolumetricQuality(system, preset.quality);
+
+  for (const key of Object.keys(preset.uniforms) as (keyof PresetUniforms)[]) {
+    const setting = preset.uniforms[key];
+    if (Array.isArray(setting)) uniforms[key].value.fromArray(setting);
+    else uniforms[key].value = setting;
+  }
+
+  setVolumetricNoise(system, preset.noise);
+  setVolumetricDenoiseMode(system, preset.denoiseMode);
+
+  // After the quality tier so explicit shadow map sizes win
+  applyLights(system, scene, preset.lights);
+  applyVolumes(system, scene, preset.volumes);
+
+  return preset;
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it, vi } from 'vitest';
+import { AdaptiveQualityController, AdaptiveQualityOptions } from './volumetric-quality.js';
+import { VolumetricLightingSystem, VolumetricQualityTier } from './volumetric-lighting.js';
+
+const SLOW = 1 / 30; // over the 60 fps budget
+const FAST = 1 / 133; // well under it, and not a divisor of the sample window
+
+// Only the parts applyVolumetricQuality touches
+function createSystem(tier: VolumetricQualityTier): VolumetricLightingSystem {
+  return {
+    qualityTier: tier,
+    uniforms: { volumetricResolution: { value: 0.5 } },
+    volumes: [],
+    lights: []
+  } as unknown as VolumetricLightingSystem;
+}
+
+function createController(tier: VolumetricQualityTier, options: AdaptiveQualityOptions = {}) {
+  const system = createSystem(tier);
+  const controller = new AdaptiveQualityController(system, options);
+  const run = (frameTime: number, seconds: number) => {
+    for (let t = 0; t < seconds; t += frameTime) controller.update(frameTime);
+  };
+  return { system, controller, run };
+}
+
+describe('AdaptiveQualityController', () => {
+  it('steps down one tier once frames stay over budget past the cooldown', () => {
+    const { system, controller, run } = createController('high');
+    run(SLOW, 1.5);
+    expect(controller.getTier()).toBe('high');
+    run(SLOW, 1);
+    expect(controller.getTier()).toBe('medium');
+    expect(system.uniforms!.volumetricResolution.value).toBe(0.35);
+  });
+
+  it('keeps stepping down to the minimum tier and no further', () => {
+    const { controller, run } = createController('ultra', { minTier: 'medium' });
+    run(SLOW, 20);
+    expect(controller.getTier()).toBe('medium');
+  });
+
+  it('steps up with clear headroom, up to the maximum tier', () => {
+    const onTierChange = vi.fn();
+    const { controller, run } = createController('low', { maxTier: 'high', onTierChange });
+    run(FAST, 20);
+    expect(controller.getTier()).toBe('high');
+    expect(onTierChange.mock.calls).toEqual([['medium'], ['high']]);
+  });
+
+  it('holds the tier while frame times are within the thresholds', () => {
+    const { controller, run } = createController('high');
+    run(1 / 60, 10);
+    expect(controller.getTier()).toBe('high');
+  });
+
+  it('waits twice as long before retrying an upgrade that had to be reverted', () => {
+    const { controller, run } = createController('high');
+    run(FAST, 2.5);
+    expect(controller.getTier()).toBe('ultra');
+    run(SLOW, 1.6);
+    expect(controller.getTier()).toBe('high');
+
+    run(FAST, 3);
+    expect(controller.getTier()).toBe('high');
+    run(FAST, 2);
+    expect(controller.getTier()).toBe('ultra');
+  });
+
+  it('ignores stalls and does nothing while disabled', () => {
+    const { controller, run } = createController('high');
+    run(1, 10);
+    expect(controller.getTier()).toBe('high');
+
+    controller.setEnabled(false);
+    run(SLOW, 10);
+    expect(controller.getTier()).toBe('high');
+  });
+
+  it('follows tiers set by hand', () => {
+    const { system, controller } = createController('high');
+    controller.setTier('low');
+    expect(system.qualityTier).toBe('low');
+    expect(controller.getTier()).toBe('low');
+  });
+});
@@ -0,0 +1,109 @@
+import {
+  applyVolumetricQuality,
+  VolumetricLightingSystem,
+  VolumetricQualityTier,
+  VOLUMETRIC_QUALITY_TIER_NAMES
+} from './volumetric-lighting.js';
+
+export interface AdaptiveQualityOptions {
+  targetFps?: number;
+  sampleWindow?: number; // seconds of frame times averaged before deciding
+  downgradeThreshold?: number; // step down when the average exceeds budget * threshold
+  upgradeThreshold?: number; // step up when the average is below budget * threshold
+  cooldown?: number; // seconds to wait after any tier change
+  minTier?: VolumetricQualityTier;
+  maxTier?: VolumetricQualityTier;
+  enabled?: boolean;
+  onTierChange?: (tier: VolumetricQualityTier) => void;
+}
+
+/**
+ * Moves the volumetric system between quality tiers to hold a target frame rate.
+ * Stepping down happens as soon as a full sample window is over budget; stepping
+ * up needs clear headroom, and an upgrade that had to be reverted doubles the wait
+ * before the next attempt so the controller settles instead of oscillating.
+ */
+export class AdaptiveQualityController {
+  private system: VolumetricLightingSystem;
+  private options: Required<Omit<AdaptiveQualityOptions, 'onTierChange'>>;
+  private onTierChange?: (tier: VolumetricQualityTier) => void;
+
+  private sampleTime = 0;
+  private sampleFrames = 0;
+  private sinceChange = 0;
+  private upgradeBackoff = 1;
+  private lastChangeWasUpgrade = false;
+
+  constructor(system: VolumetricLightingSystem, opts: AdaptiveQualityOptions = {}) {
+    this.system = system;
+    this.options = {
+      targetFps: opts.targetFps ?? 60,
+      sampleWindow: opts.sampleWindow ?? 1.0,
+      downgradeThreshold: opts.downgradeThreshold ?? 1.15,
+      upgradeThreshold: opts.upgradeThreshold ?? 0.7,
+      cooldown: opts.cooldown ?? 2.0,
+      minTier: opts.minTier ?? 'low',
+      maxTier: opts.maxTier ?? 'ultra',
+      enabled: opts.enabled ?? true
+    };
+    this.onTierChange = opts.onTierChange;
+  }
+
+  // Read from the system so manual applyVolumetricQuality calls are respected
+  private get tierIndex(): number {
+    return VOLUMETRIC_QUALITY_TIER_NAMES.indexOf(this.system.qualityTier ?? 'high');
+  }
+
+  // Call once per rendered frame with the wall-clock frame time in seconds
+  public update(deltaTime: number): void {
+    if (!this.options.enabled || !this.system.uniforms) return;
+    // Ignore stalls such as tab switches or shader compiles
+    if (deltaTime <= 0 || deltaTime > 0.5) return;
+
+    this.sinceChange += deltaTime;
+    this.sampleTime += deltaTime;
+    this.sampleFrames++;
+    if (this.sampleTime < this.options.sampleWindow) return;
+
+    const averageFrameTime = this.sampleTime / this.sampleFrames;
+    this.sampleTime = 0;
+    this.sampleFrames = 0;
+
+    const budget = 1 / this.options.targetFps;
+    const minIndex = VOLUMETRIC_QUALITY_TIER_NAMES.indexOf(this.options.minTier);
+    const maxIndex = VOLUMETRIC_QUALITY_TIER_NAMES.indexOf(this.options.maxTier);
+
+    if (averageFrameTime > budget * this.options.downgradeThreshold && this.tierIndex > minIndex) {
+      if (this.sinceChange < this.options.cooldown && !this.lastChangeWasUpgrade) return;
+      // The last upgrade couldn't be sustained: wait longer before trying again
+      if (this.lastChangeWasUpgrade && this.sinceChange < this.options.cooldown * this.upgradeBackoff * 2) {
+        this.upgradeBackoff = Math.min(this.upgradeBackoff * 2, 32);
+      }
+      this.changeTier(this.tierIndex - 1, false);
+    } else if (averageFrameTime < budget * this.options.upgradeThreshold && this.tierIndex < maxIndex) {
+      if (this.sinceChange < this.options.cooldown * this.upgradeBackoff) return;
+      this.changeTier(this.tierIndex + 1, true);
+    } else if (this.sinceChange > this.options.cooldown * this.upgradeBackoff * 4) {
+      // Stable for a long while: let the backoff decay
+      this.upgradeBackoff = Math.max(1, this.upgradeBackoff / 2);
+    }
+  }
+
+  private changeTier(index: number, upgrade: boolean): void {
+    this.sinceChange = 0;
+    this.lastChangeWasUpgrade = upgrade;
+    const tier = VOLUMETRIC_QUALITY_TIER_NAMES[index];
+    applyVolumetricQuality(this.system, tier);
+    this.onTierChange?.(tier);
+  }
+
+  public getTier(): VolumetricQualityTier { return VOLUMETRIC_QUALITY_TIER_NAMES[this.tierIndex]; }
+  public setTier(tier: VolumetricQualityTier): void { this.changeTier(VOLUMETRIC_QUALITY_TIER_NAMES.indexOf(tier), false); }
+  public isEnabled(): boolean { return this.options.enabled; }
+  public setEnabled(enabled: boolean): void {
+    this.options.enabled = enabled;
+    this.sampleTime = 0;
+    this.sampleFrames = 0;
+  }
+  public setTargetFps(value: number): void { this.options.targetFps = Math.max(1, value); }
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import * as THREE from 'three/webgpu';
+import { colorTemperatureToRGB, computeSunDirection } from './volumetric-time-of-day.js';
+
+const EQUINOX = 80; // declination close to 0
+const SOLSTICE = 172;
+const elevation = (direction: THREE.Vector3) => THREE.MathUtils.radToDeg(Math.asin(direction.y));
+
+describe('computeSunDirection', () => {
+  it('puts the sun overhead at noon on the equator at an equinox', () => {
+    const direction = computeSunDirection(12, EQUINOX, 0);
+    expect(direction.y).toBeCloseTo(1, 3);
+  });
+
+  it('rises in the east and sets in the west', () => {
+    const morning = computeSunDirection(6, EQUINOX, 0);
+    const evening = computeSunDirection(18, EQUINOX, 0);
+    expect(morning.x).toBeCloseTo(1, 3);
+    expect(evening.x).toBeCloseTo(-1, 3);
+    expect(elevation(morning)).toBeCloseTo(0, 0);
+  });
+
+  it('reaches 90 - latitude + declination at noon, due south in the north', () => {
+    const direction = computeSunDirection(12, SOLSTICE, 48.85);
+    expect(elevation(direction)).toBeCloseTo(90 - 48.85 + 23.44, 0);
+    expect(direction.x).toBeCloseTo(0, 6);
+    expect(direction.z).toBeGreaterThan(0); // north is -Z
+  });
+
+  it('stands due north at noon in the southern hemisphere', () => {
+    const direction = computeSunDirection(12, EQUINOX, -35);
+    expect(Math.abs(elevation(direction) - 55)).toBeLessThan(1);
+    expect(direction.z).toBeLessThan(0);
+  });
+
+  it('is below the horizon at midnight', () => {
+    expect(computeSunDirection(0, SOLSTICE, 48.85).y).toBeLessThan(0);
+  });
+
+  it('returns a unit vector rotated by the north offset', () => {
+    const direction = computeSunDirection(9, SOLSTICE, 48.85);
+    const rotated = computeSunDirection(9, SOLSTICE, 48.85, Math.PI / 2);
+    expect(direction.length()).toBeCloseTo(1);
+    const expected = direction.clone().applyAxisAngle(new THREE.Vector3(0, 1, 0), Math.PI / 2);
+    expect(rotated.distanceTo(expected)).toBeCloseTo(0, 10);
+  });
+
+  it('writes into the given target', () => {
+    const target = new THREE.Vector3();
+    expect(computeSunDirection(12, EQUINOX, 0, 0, target)).toBe(target);
+  });
+});
+
+describe('colorTemperatureToRGB', () => {
+  const srgb = (kelvin: number) => colorTemperatureToRGB(kelvin).getRGB({ r: 0, g: 0, b: 0 }, THREE.SRGBColorSpace);
+
+  it('is close to white at 6600K', () => {
+    const { r, g, b } = srgb(6600);
+    expect(r).toBeCloseTo(1, 2);
+    expect(g).toBeCloseTo(1, 2);
+    expect(b).toBeCloseTo(1, 2);
+  });
+
+  it('is warm below and cool above daylight', () => {
+    const warm = srgb(1900);
+    expect(warm.r).toBeCloseTo(1, 5);
+    expect(warm.g).toBeLessThan(warm.r);
+    expect(warm.b).toBeLessThan(warm.g);
+
+    const cool = srgb(12000);
+    expect(cool.b).toBeCloseTo(1, 5);
+    expect(cool.r).toBeLessThan(cool.b);
+  });
+
+  it('clamps to the valid range', () => {
+    expect(srgb(500)).toEqual(srgb(1000));
+    expect(srgb(90000)).toEqual(srgb(40000));
+  });
+
+  it('keeps every channel in [0, 1]', () => {
+    for (let kelvin = 1000; kelvin <= 40000; kelvin += 500) {
+      const { r, g, b } = srgb(kelvin);
+      for (const channel of [r, g, b]) {
+        expect(channel).toBeGreaterThanOrEqual(0);
+        expect(channel).toBeLessThanOrEqual(1);
+      }
+    }
+  });
+});
@@ -0,0 +1,209 @@
+import * as THREE from 'three/webgpu';
+import {
+  recordLightPositions,
+  updateManualOverride,
+  VolumetricLight,
+  VolumetricLightingSystem
+} from './volumetric-lighting.js';
+
+// ============================================================================
+// CONSTANTS & INTERFACES
+// ============================================================================
+
+export interface TimeOfDayOptions {
+  hour?: number; // local solar time in [0, 24)
+  dayOfYear?: number; // 1 = January 1st
+  latitude?: number; // degrees, positive north
+  northOffset?: number; // radians around +Y from -Z to the scene's north
+  speed?: number; // simulated seconds per real second
+  enabled?: boolean;
+  light?: VolumetricLight; // defaults to the system's spotlight
+  target?: THREE.Vector3Like; // point the light aims at
+  distance?: number; // distance of the light from the target
+  maxIntensity?: number; // intensity with the sun high in the sky
+  dayExposure?: number;
+  nightExposure?: number;
+  driveFog?: boolean; // also drive volumetricLightingIntensity
+  dayFog?: number;
+  twilightFog?: number; // denser haze while the sun is low
+}
+
+export interface SunState {
+  direction: THREE.Vector3; // unit vector from the target towards the sun
+  elevation: number; // radians above the horizon
+  daylight: number; // 0 at night, 1 in full daylight
+  temperature: number; // color temperature in Kelvin
+}
+
+// ============================================================================
+// SOLAR MODEL
+// ============================================================================
+
+const DEG2RAD = Math.PI / 180;
+
+/**
+ * Direction to the sun for a latitude, day of year and solar hour, using the
+ * usual declination and hour-angle approximation. The result is in scene
+ * space with east +X, up +Y and north -Z, rotated by `northOffset`.
+ */
+export function computeSunDirection(
+  hour: number,
+  dayOfYear: number,
+  latitude: number,
+  northOffset = 0,
+  target = new THREE.Vector3()
+): THREE.Vector3 {
+  const declination = -23.44 * DEG2RAD * Math.cos(2 * Math.PI / 365 * (dayOfYear + 10));
+  const hourAngle = (hour - 12) * 15 * DEG2RAD;
+  const phi = latitude * DEG2RAD;
+
+  const east = -Math.cos(declination) * Math.sin(hourAngle);
+  const north = Math.cos(phi) * Math.sin(declination) - Math.sin(phi) * Math.cos(declination) * Math.cos(hourAngle);
+  const up = Math.sin(phi) * Math.sin(declination) + Math.cos(phi) * Math.cos(declination) * Math.cos(hourAngle);
+
+  return target.set(east, up, -north).applyAxisAngle(THREE.Object3D.DEFAULT_UP, northOffset).normalize();
+}
+
+// Blackbody color approximation (Tanner Helland), valid for 1000K-40000K
+export function colorTemperatureToRGB(kelvin: number, target = new THREE.Color()): THREE.Color {
+  const t = THREE.MathUtils.clamp(kelvin, 1000, 40000) / 100;
+
+  const r = t <= 66 ? 255 : 329.698727446 * (t - 60) ** -0.1332047592;
+  const g = t <= 66 ? 99.4708025861 * Math.log(t) - 161.1195681661 : 288.1221695283 * (t - 60) ** -0.0755148492;
+  const b = t >= 66 ? 255 : t <= 19 ? 0 : 138.5177312231 * Math.log(t - 10) - 305.0447927307;
+
+  const channel = (value: number) => THREE.MathUtils.clamp(value, 0, 255) / 255;
+  return target.setRGB(channel(r), channel(g), channel(b), THREE.SRGBColorSpace);
+}
+
+// Warm near the horizon, close to daylight white once the sun is up
+function sunTemperature(elevation: number): number {
+  const height = THREE.MathUtils.smoothstep(elevation, -2 * DEG2RAD, 35 * DEG2RAD);
+  return THREE.MathUtils.lerp(1900, 5800, height);
+}
+
+// ============================================================================
+// TIME OF DAY CONTROLLER
+// ============================================================================
+
+/**
+ * Moves the godray light along the sun's path. Each update advances the clock
+ * by `speed`, then places the light `distance` from the target towards the
+ * sun and sets its intensity and color temperature, the renderer's tone
+ * mapping exposure and optionally the fog density. Like the light timeline,
+ * it stops writing while a light is being moved by hand.
+ */
+export class TimeOfDayController {
+  private system: VolumetricLightingSystem;
+  private renderer: THREE.WebGPURenderer;
+  private options: Required<Omit<TimeOfDayOptions, 'light'>>;
+  private light: VolumetricLight | null;
+  private state: SunState = { direction: new THREE.Vector3(0, 1, 0), elevation: 0, daylight: 0, temperature: 0 };
+
+  constructor(system: VolumetricLightingSystem, renderer: THREE.WebGPURenderer, opts: TimeOfDayOptions = {}) {
+    this.system = system;
+    this.renderer = renderer;
+    this.light = opts.light ?? system.spotLight;
+    this.options = {
+      hour: opts.hour ?? 9,
+      dayOfYear: opts.dayOfYear ?? 172,
+      latitude: opts.latitude ?? 48.85,
+      northOffset: opts.northOffset ?? 0,
+      speed: opts.speed ?? 600,
+      enabled: opts.enabled ?? true,
+      target: opts.target ?? { x: 0, y: 0, z: 0 },
+      distance: opts.distance ?? 150,
+      maxIntensity: opts.maxIntensity ?? 280,
+      dayExposure: opts.dayExposure ?? renderer.toneMappingExposure,
+      nightExposure: opts.nightExposure ?? renderer.toneMappingExposure * 2,
+      driveFog: opts.driveFog ?? false,
+      dayFog: opts.dayFog ?? system.uniforms?.volumetricLightingIntensity.value ?? 2,
+      twilightFog: opts.twilightFog ?? (system.uniforms?.volumetricLightingIntensity.value ?? 2) * 1.5
+    };
+  }
+
+  // Call once per frame with the frame time in seconds; `time` is the clock the
+  // manual override is timed on, pass the same one as to animateVolumetricLights
+  public update(deltaTime: number, time = performance.now() * 0.001): void {
+    if (!this.options.enabled) return;
+    this.advance(deltaTime * this.options.speed / 3600);
+    this.apply(time);
+  }
+
+  private advance(hours: number): void {
+    let hour = this.options.hour + hours;
+    const days = Math.floor(hour / 24);
+    hour -= days * 24;
+    this.options.hour = hour;
+    this.options.dayOfYear = ((this.options.dayOfYear - 1 + days) % 365 + 365) % 365 + 1;
+  }
+
+  private apply(time = performance.now() * 0.001): void {
+    const { options, state } = this;
+    computeSunDirection(options.hour, options.dayOfYear, options.latitude, options.northOffset, state.direction);
+    state.elevation = Math.asin(THREE.MathUtils.clamp(state.direction.y, -1, 1));
+    state.daylight = THREE.MathUtils.smoothstep(state.elevation, -4 * DEG2RAD, 10 * DEG2RAD);
+    state.temperature = sunTemperature(state.elevation);
+
+    this.renderer.toneMappingExposure = THREE.MathUtils.lerp(options.nightExposure, options.dayExposure, state.daylight);
+
+    const uniforms = this.system.uniforms;
+    if (options.driveFog && uniforms) {
+      // Haze peaks while the sun is low, then thins out in full daylight
+      const lowSun = 1 - THREE.MathUtils.smoothstep(state.elevation, 5 * DEG2RAD, 30 * DEG2RAD);
+      uniforms.volumetricLightingIntensity.value = THREE.MathUtils.lerp(options.dayFog, options.twilightFog, lowSun * state.daylight);
+    }
+
+    const light = this.light;
+    if (!light || updateManualOverride(this.system, time)) {
+      recordLightPositions(this.system);
+      return;
+    }
+
+    light.position.copy(options.target).addScaledVector(state.direction, options.distance);
+    if (!(light instanceof THREE.PointLight)) light.target.position.copy(options.target);
+    light.intensity = options.maxIntensity * state.daylight;
+    colorTemperatureToRGB(state.temperature, light.color);
+
+    recordLightPositions(this.system);
+  }
+
+  // Changes show up immediately, also while the clock is paused with speed 0
+  private refresh(): void {
+    if (this.options.enabled) this.apply();
+  }
+
+  // Jumps to an hour of the current day
+  public setHour(hour: number): void {
+    this.options.hour = 0;
+    this.advance(hour);
+    this.refresh();
+  }
+
+  public setDayOfYear(day: number): void {
+    this.options.dayOfYear = THREE.MathUtils.clamp(Math.round(day), 1, 365);
+    this.refresh();
+  }
+
+  public setLatitude(degrees: number): void {
+    this.options.latitude = THREE.MathUtils.clamp(degrees, -90, 90);
+    this.refresh();
+  }
+
+  public getHour(): number { return this.options.hour; }
+  public getDayOfYear(): number { return this.options.dayOfYear; }
+  public getLatitude(): number { return this.options.latitude; }
+  public getSunState(): Readonly<SunState> { return this.state; }
+  public getSpeed(): number { return this.options.speed; }
+  public setSpeed(value: number): void { this.options.speed = value; }
+  public isEnabled(): boolean { return this.options.enabled; }
+  public setEnabled(enabled: boolean): void {
+    this.options.enabled = enabled;
+    this.refresh();
+  }
+  public setFogDriven(enabled: boolean): void { this.options.driveFog = enabled; }
+  public setLight(light: VolumetricLight | null): void {
+    this.light = light;
+    this.refresh();
+  }
+}
@@ -0,0 +1,162 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import * as THREE from 'three/webgpu';
+import { setupVolumetricLighting, VolumetricLightingSystem } from './volumetric-lighting.js';
+import { LightTimeline, LightTimelineOptions, TimelineEasing } from './volumetric-timeline.js';
+
+let system: VolumetricLightingSystem;
+let light: THREE.SpotLight;
+
+beforeEach(() => {
+  system = setupVolumetricLighting(new THREE.Scene(), new THREE.PerspectiveCamera(), {} as THREE.WebGPURenderer, 10, {
+    noise: { resolution: 8 }
+  });
+  light = system.spotLight!;
+});
+
+// Moves x from 0 to 10 and intensity from 0 to 100 over two seconds
+function createTimeline(options: LightTimelineOptions = {}, easing: TimelineEasing = 'linear'): LightTimeline {
+  const timeline = new LightTimeline(system, { autoplay: true, ...options });
+  timeline.setTracks(light, {
+    position: [{ time: 0, value: { x: 0, y: 5, z: 0 }, easing }, { time: 2, value: { x: 10, y: 5, z: 0 } }],
+    intensity: [{ time: 0, value: 0, easing }, { time: 2, value: 100 }]
+  });
+  return timeline;
+}
+
+describe('LightTimeline', () => {
+  it('interpolates between keyframes', () => {
+    const timeline = createTimeline();
+    timeline.update(0.5);
+    expect(light.position.x).toBeCloseTo(2.5);
+    expect(light.intensity).toBeCloseTo(25);
+    expect(timeline.getDuration()).toBe(2);
+  });
+
+  it.each([
+    ['linear', 0.5],
+    ['step', 0],
+    ['easeIn', 0.125],
+    ['easeOut', 0.875],
+    ['easeInOut', 0.5]
+  ] as [TimelineEasing, number][])('applies %s easing', (easing, expected) => {
+    const timeline = createTimeline({}, easing);
+    timeline.update(1);
+    expect(light.intensity / 100).toBeCloseTo(expected);
+  });
+
+  it('stops drifting lights with a position track only while playing', () => {
+    const entry = system.lights!.find(candidate => candidate.light === light)!;
+    entry.animated = true;
+    const timeline = createTimeline({ autoplay: false });
+    expect(entry.animated).toBe(true);
+
+    timeline.play();
+    expect(entry.animated).toBe(false);
+    timeline.pause();
+    expect(entry.animated).toBe(true);
+  });
+
+  it('gives lights their drift back when a one-shot timeline ends', () => {
+    const entry = system.lights!.find(candidate => candidate.light === light)!;
+    entry.animated = true;
+    const timeline = createTimeline({ loop: 'once' });
+    expect(entry.animated).toBe(false);
+    timeline.update(3);
+    expect(entry.animated).toBe(true);
+  });
+
+  it('gives lights their drift back when their tracks are removed', () => {
+    const entry = system.lights!.find(candidate => candidate.light === light)!;
+    entry.animated = true;
+    const timeline = createTimeline();
+    timeline.removeTracks(light);
+    expect(entry.animated).toBe(true);
+
+    timeline.setTracks(light, { position: [{ time: 0, value: { x: 0, y: 0, z: 0 } }] });
+    expect(entry.animated).toBe(false);
+    timeline.clear();
+    expect(entry.animated).toBe(true);
+  });
+
+  it('keeps lights still after playback that were not drifting before', () => {
+    const entry = system.lights!.find(candidate => candidate.light === light)!;
+    entry.animated = false;
+    createTimeline().pause();
+    expect(entry.animated).toBe(false);
+  });
+
+  it('wraps around in loop mode', () => {
+    const timeline = createTimeline({ loop: 'loop' });
+    timeline.update(2.5);
+    expect(timeline.getTime()).toBeCloseTo(0.5);
+    expect(light.position.x).toBeCloseTo(2.5);
+  });
+
+  it('reflects off both ends in ping-pong mode', () => {
+    const timeline = createTimeline({ loop: 'pingpong' });
+    timeline.update(2.5);
+    expect(timeline.getTime()).toBeCloseTo(1.5);
+    timeline.update(2);
+    expect(timeline.getTime()).toBeCloseTo(0.5);
+    timeline.update(0.25);
+    expect(timeline.getTime()).toBeCloseTo(0.75);
+  });
+
+  it('stops at the end in once mode and starts over when played again', () => {
+    const timeline = createTimeline({ loop: 'once' });
+    timeline.update(3);
+    expect(timeline.getTime()).toBe(2);
+    expect(timeline.isPlaying()).toBe(false);
+    expect(light.position.x).toBeCloseTo(10);
+
+    timeline.play();
+    expect(timeline.getTime()).toBe(0);
+    expect(timeline.isPlaying()).toBe(true);
+  });
+
+  it('plays backwards with a negative speed', () => {
+    const timeline = createTimeline({ speed: -1 });
+    timeline.seek(1.5);
+    timeline.update(1);
+    expect(timeline.getTime()).toBeCloseTo(0.5);
+  });
+
+  it('seeks while paused, clamped to the duration', () => {
+    const timeline = createTimeline({ autoplay: false });
+    timeline.seek(1);
+    expect(light.position.x).toBeCloseTo(5);
+    timeline.seek(10);
+    expect(timeline.getTime()).toBe(2);
+    expect(light.intensity).toBeCloseTo(100);
+
+    timeline.update(1);
+    expect(timeline.getTime()).toBe(2);
+  });
+
+  it('keeps its clock but stops writing while a light is moved by hand', () => {
+    const timeline = createTimeline();
+    timeline.update(0.5);
+    light.position.set(-3, 1, 1);
+
+    timeline.update(0.5);
+    expect(timeline.getTime()).toBeCloseTo(1);
+    expect(light.position.x).toBe(-3);
+
+    // Seeking is deliberate and ends the override
+    timeline.seek(0.5);
+    expect(light.position.x).toBeCloseTo(2.5);
+  });
+
+  it('times the manual override on the clock it is given', () => {
+    const timeline = createTimeline({ loop: 'once' });
+    timeline.update(0.5, 100);
+    light.position.set(-3, 1, 1);
+
+    timeline.update(0.5, 101);
+    expect(light.position.x).toBe(-3);
+    timeline.update(0.5, 105.5);
+    expect(light.position.x).toBe(-3);
+    timeline.update(0.5, 106.5);
+    expect(light.position.x).toBeCloseTo(10);
+  });
+});
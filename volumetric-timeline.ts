@@ -0,0 +1,254 @@
+import * as THREE from 'three/webgpu';
+import {
+  recordLightPositions,
+  updateManualOverride,
+  VolumetricLight,
+  VolumetricLightingSystem
+} from './volumetric-lighting.js';
+
+// ============================================================================
+// CONSTANTS & INTERFACES
+// ============================================================================
+
+export type TimelineEasing = 'linear' | 'step' | 'easeIn' | 'easeOut' | 'easeInOut';
+
+export const TIMELINE_EASINGS: TimelineEasing[] = ['linear', 'step', 'easeIn', 'easeOut', 'easeInOut'];
+
+export type TimelineLoopMode = 'once' | 'loop' | 'pingpong';
+
+export const TIMELINE_LOOP_MODES: TimelineLoopMode[] = ['once', 'loop', 'pingpong'];
+
+export interface Keyframe<T> {
+  time: number; // seconds from the start of the timeline
+  value: T;
+  easing?: TimelineEasing; // curve towards the next keyframe, linear by default
+}
+
+export interface LightTracks {
+  position?: Keyframe<THREE.Vector3Like>[];
+  target?: Keyframe<THREE.Vector3Like>[]; // spot and directional lights only
+  intensity?: Keyframe<number>[];
+  color?: Keyframe<THREE.ColorRepresentation>[];
+}
+
+export interface LightTimelineOptions {
+  duration?: number; // defaults to the last keyframe of any track
+  loop?: TimelineLoopMode;
+  speed?: number; // playback rate, negative plays backwards
+  autoplay?: boolean;
+}
+
+// Tracks with their values converted once, so evaluation doesn't allocate
+interface ResolvedTracks {
+  position: Keyframe<THREE.Vector3>[];
+  target: Keyframe<THREE.Vector3>[];
+  intensity: Keyframe<number>[];
+  color: Keyframe<THREE.Color>[];
+}
+
+const EASINGS: Record<TimelineEasing, (t: number) => number> = {
+  linear: t => t,
+  step: () => 0,
+  easeIn: t => t * t * t,
+  easeOut: t => 1 - (1 - t) ** 3,
+  easeInOut: t => t < 0.5 ? 4 * t * t * t : 1 - (-2 * t + 2) ** 3 / 2
+};
+
+// ============================================================================
+// KEYFRAME EVALUATION
+// ============================================================================
+
+function sortKeys<T, R>(keys: Keyframe<T>[] | undefined, convert: (value: T) => R): Keyframe<R>[] {
+  return (keys ?? [])
+    .map(key => ({ time: key.time, value: convert(key.value), easing: key.easing }))
+    .sort((a, b) => a.time - b.time);
+}
+
+// Finds the segment containing `time` and returns its eased blend factor
+function locate<T>(keys: Keyframe<T>[], time: number): { from: T; to: T; alpha: number } {
+  if (time <= keys[0].time) return { from: keys[0].value, to: keys[0].value, alpha: 0 };
+
+  const last = keys[keys.length - 1];
+  if (time >= last.time) return { from: last.value, to: last.value, alpha: 0 };
+
+  let i = 1;
+  while (keys[i].time < time) i++;
+  const a = keys[i - 1], b = keys[i];
+  const span = b.time - a.time;
+  const alpha = span > 0 ? EASINGS[a.easing ?? 'linear']((time - a.time) / span) : 1;
+  return { from: a.value, to: b.value, alpha };
+}
+
+// ============================================================================
+// LIGHT TIMELINE
+// ============================================================================
+
+/**
+ * Keyframed animation of volumetric lights. Each light gets optional position,
+ * target, intensity and color tracks; the timeline plays, pauses, seeks and
+ * loops or ping-pongs over its duration. While a light is being moved by hand
+ * (see updateManualOverride) the timeline keeps running but stops writing,
+ * and picks up again at its current time once the override expires.
+ */
+export class LightTimeline {
+  private system: VolumetricLightingSystem;
+  private tracks = new Map<VolumetricLight, ResolvedTracks>();
+  private driftBeforePlay = new Map<VolumetricLight, boolean>(); // `animated` of lights held still while playing
+
+  private time = 0;
+  private direction = 1; // flips at the ends in ping-pong mode
+  private playing: boolean;
+  private loop: TimelineLoopMode;
+  private speed: number;
+  private duration: number | null;
+
+  constructor(system: VolumetricLightingSystem, opts: LightTimelineOptions = {}) {
+    this.system = system;
+    this.duration = opts.duration ?? null;
+    this.loop = opts.loop ?? 'loop';
+    this.speed = opts.speed ?? 1;
+    this.playing = opts.autoplay ?? false;
+  }
+
+  // Replaces all tracks of a light. While playing, lights with a position track
+  // stop drifting in animateVolumetricLights so the two don't fight over the
+  // position; their drift setting comes back once playback stops.
+  public setTracks(light: VolumetricLight, tracks: LightTracks): void {
+    const resolved: ResolvedTracks = {
+      position: sortKeys(tracks.position, value => new THREE.Vector3().copy(value)),
+      target: light instanceof THREE.PointLight ? [] : sortKeys(tracks.target, value => new THREE.Vector3().copy(value)),
+      intensity: sortKeys(tracks.intensity, value => value),
+      color: sortKeys(tracks.color, value => new THREE.Color(value))
+    };
+    this.tracks.set(light, resolved);
+
+    if (this.playing && resolved.position.length) this.holdDrift(light);
+    else this.restoreDrift(light);
+  }
+
+  public removeTracks(light: VolumetricLight): boolean {
+    this.restoreDrift(light);
+    return this.tracks.delete(light);
+  }
+
+  public clear(): void {
+    this.driftBeforePlay.forEach((_, light) => this.restoreDrift(light));
+    this.tracks.clear();
+  }
+
+  private holdDrift(light: VolumetricLight): void {
+    const entry = this.system.lights?.find(candidate => candidate.light === light);
+    if (!entry || this.driftBeforePlay.has(light)) return;
+    this.driftBeforePlay.set(light, entry.animated);
+    entry.animated = false;
+  }
+
+  private restoreDrift(light: VolumetricLight): void {
+    if (!this.driftBeforePlay.has(light)) return;
+    const entry = this.system.lights?.find(candidate => candidate.light === light);
+    if (entry) entry.animated = this.driftBeforePlay.get(light)!;
+    this.driftBeforePlay.delete(light);
+  }
+
+  public getDuration(): number {
+    if (this.duration !== null) return this.duration;
+    let end = 0;
+    this.tracks.forEach(tracks => {
+      for (const keys of [tracks.position, tracks.target, tracks.intensity, tracks.color]) {
+        if (keys.length) end = Math.max(end, keys[keys.length - 1].time);
+      }
+    });
+    return end;
+  }
+
+  // Call once per frame with the frame time in seconds; `time` is the clock the
+  // manual override is timed on, pass the same one as to animateVolumetricLights
+  public update(deltaTime: number, time = performance.now() * 0.001): void {
+    if (!this.playing || !this.tracks.size) return;
+
+    const duration = this.getDuration();
+    this.time += deltaTime * this.speed * this.direction;
+
+    if (duration <= 0) {
+      this.time = 0;
+    } else if (this.loop === 'loop') {
+      this.time = ((this.time % duration) + duration) % duration;
+    } else if (this.loop === 'pingpong') {
+      // Reflect off either end, possibly several times after a long frame
+      while (this.time > duration || this.time < 0) {
+        this.time = this.time > duration ? 2 * duration - this.time : -this.time;
+        this.direction = -this.direction;
+      }
+    } else if (this.time >= duration || this.time <= 0) {
+      this.time = THREE.MathUtils.clamp(this.time, 0, duration);
+      this.pause();
+    }
+
+    // Dragging a light takes over until it has been left alone; positions are
+    // still recorded so the override can expire
+    if (updateManualOverride(this.system, time)) {
+      recordLightPositions(this.system);
+      return;
+    }
+    this.apply();
+  }
+
+  // Writes every track's value at the current time to its light
+  private apply(): void {
+    this.tracks.forEach((tracks, light) => {
+      if (tracks.position.length) {
+        const { from, to, alpha } = locate(tracks.position, this.time);
+        light.position.lerpVectors(from, to, alpha);
+      }
+      if (tracks.target.length && !(light instanceof THREE.PointLight)) {
+        const { from, to, alpha } = locate(tracks.target, this.time);
+        light.target.position.lerpVectors(from, to, alpha);
+      }
+      if (tracks.intensity.length) {
+        const { from, to, alpha } = locate(tracks.intensity, this.time);
+        light.intensity = THREE.MathUtils.lerp(from, to, alpha);
+      }
+      if (tracks.color.length) {
+        const { from, to, alpha } = locate(tracks.color, this.time);
+        light.color.lerpColors(from, to, alpha);
+      }
+    });
+
+    recordLightPositions(this.system);
+  }
+
+  public play(): void {
+    // Replaying a finished one-shot timeline starts over
+    const duration = this.getDuration();
+    if (this.loop === 'once' && this.speed >= 0 && this.time >= duration) this.time = 0;
+    this.playing = true;
+    this.tracks.forEach((tracks, light) => {
+      if (tracks.position.length) this.holdDrift(light);
+    });
+  }
+
+  public pause(): void {
+    this.playing = false;
+    this.driftBeforePlay.forEach((_, light) => this.restoreDrift(light));
+  }
+
+  public isPlaying(): boolean { return this.playing; }
+
+  // Jumps to a time and applies it right away, also while paused. Seeking is
+  // deliberate, so it ends any manual override.
+  public seek(time: number): void {
+    this.time = THREE.MathUtils.clamp(time, 0, this.getDuration());
+    if (this.system.animationControl) this.system.animationControl.manualOverride = false;
+    this.apply();
+  }
+
+  public getTime(): number { return this.time; }
+  public getLoopMode(): TimelineLoopMode { return this.loop; }
+  public setLoopMode(mode: TimelineLoopMode): void {
+    this.loop = mode;
+    this.direction = 1;
+  }
+  public getSpeed(): number { return this.speed; }
+  public setSpeed(value: number): void { this.speed = value; }
+  public setDuration(value: number | null): void { this.duration = value === null ? null : Math.max(0, value); }
+}
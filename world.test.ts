@@ -0,0 +1,315 @@
+// @vitest-environment jsdom
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import * as THREE from 'three/webgpu';
+// @ts-ignore
+import RAPIER from '@dimforge/rapier3d-compat';
+import {
+  createGround,
+  DEFAULT_INPUT_ACTIONS,
+  FPS_MOVEMENT_MODES,
+  FPSController,
+  FPSMovementMode,
+  InputHandler,
+  InputHandlerOptions
+} from './world.js';
+
+const STORAGE_KEY = 'test.inputBindings';
+const handlers: InputHandler[] = [];
+
+function createHandler(options: InputHandlerOptions = {}): InputHandler {
+  const handler = new InputHandler({ storageKey: STORAGE_KEY, ...options });
+  handlers.push(handler);
+  return handler;
+}
+
+function press(code: string, target: EventTarget = document): void {
+  target.dispatchEvent(new KeyboardEvent('keydown', { code, bubbles: true, cancelable: true }));
+}
+
+function release(code: string, target: EventTarget = document): void {
+  target.dispatchEvent(new KeyboardEvent('keyup', { code, bubbles: true, cancelable: true }));
+}
+
+beforeEach(() => localStorage.clear());
+afterEach(() => handlers.splice(0).forEach(handler => handler.dispose()));
+
+describe('InputHandler', () => {
+  it('tracks held actions through any of their bindings', () => {
+    const input = createHandler();
+    input.setContext('walk', true);
+    press('ShiftLeft');
+    press('ControlRight');
+    expect(input.isActive('sprint')).toBe(true);
+    release('ShiftLeft');
+    expect(input.isActive('sprint')).toBe(true);
+    release('ControlRight');
+    expect(input.isActive('sprint')).toBe(false);
+  });
+
+  it('only fires listeners when an action starts or stops', () => {
+    const input = createHandler();
+    input.setContext('walk', true);
+    const listener = vi.fn();
+    const unsubscribe = input.onAction('sprint', listener);
+
+    press('ShiftLeft');
+    press('ShiftRight');
+    release('ShiftLeft');
+    release('ShiftRight');
+    expect(listener.mock.calls.map(([pressed]) => pressed)).toEqual([true, false]);
+
+    unsubscribe();
+    press('ShiftLeft');
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+
+  it('routes a shared key by context', () => {
+    const input = createHandler();
+    input.setContext('walk', true);
+    press('Space');
+    expect(input.isActive('jump')).toBe(true);
+    expect(input.isActive('flyUp')).toBe(false);
+    release('Space');
+
+    input.setContext('walk', false);
+    input.setContext('fly', true);
+    press('Space');
+    expect(input.isActive('jump')).toBe(false);
+    expect(input.isActive('flyUp')).toBe(true);
+  });
+
+  it('ignores keys typed into text fields', () => {
+    const input = createHandler();
+    const field = document.body.appendChild(document.createElement('input'));
+    press('KeyW', field);
+    expect(input.isActive('moveForward')).toBe(false);
+    field.remove();
+  });
+
+  it('releases every key when the window loses focus', () => {
+    const input = createHandler();
+    press('KeyW');
+    window.dispatchEvent(new Event('blur'));
+    expect(input.isActive('moveForward')).toBe(false);
+  });
+
+  it('has no conflicts with the default bindings', () => {
+    expect(createHandler().getConflicts()).toEqual([]);
+  });
+
+  it('reports keys shared by actions whose contexts overlap', () => {
+    const input = createHandler();
+    // Space is also jump, but only while walking; toggleFly is always active
+    expect(input.setBindings('toggleFly', ['Space'])).toEqual([{ code: 'Space', actions: ['jump', 'flyUp', 'toggleFly'] }]);
+    expect(input.addBinding('moveLeft', 'KeyD')).toEqual([{ code: 'KeyD', actions: ['moveLeft', 'moveRight'] }]);
+    // flyDown and sprint share Shift, but are never active together
+    expect(input.getConflicts().map(conflict => conflict.code)).toEqual(['KeyD', 'Space']);
+  });
+
+  it('persists rebound keys and restores them in a new handler', () => {
+    createHandler().setBindings('jump', ['KeyJ', 'KeyJ', 'Space']);
+    const restored = createHandler();
+    expect(restored.getBindings('jump')).toEqual(['KeyJ', 'Space']);
+
+    restored.removeBinding('jump', 'Space');
+    expect(createHandler().getBindings('jump')).toEqual(['KeyJ']);
+  });
+
+  it('falls back to the defaults on reset and for unreadable storage', () => {
+    const input = createHandler();
+    input.setBindings('jump', ['KeyJ']);
+    input.resetBindings();
+    expect(createHandler().getBindings('jump')).toEqual(DEFAULT_INPUT_ACTIONS.jump.bindings);
+
+    localStorage.setItem(STORAGE_KEY, '{ not json');
+    expect(createHandler().getBindings('jump')).toEqual(DEFAULT_INPUT_ACTIONS.jump.bindings);
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ jump: [1, 2], unknown: ['KeyX'] }));
+    expect(createHandler().getBindings('jump')).toEqual(DEFAULT_INPUT_ACTIONS.jump.bindings);
+  });
+
+  it('does not touch storage without a storage key', () => {
+    createHandler({ storageKey: null }).setBindings('jump', ['KeyJ']);
+    expect(localStorage.length).toBe(0);
+  });
+
+  it('rejects unknown actions', () => {
+    expect(() => createHandler().setBindings('dance', ['KeyX'])).toThrow(/Unknown input action "dance"/);
+  });
+
+  it('captures the next key instead of acting on it', async () => {
+    const input = createHandler();
+    const next = input.captureNextKey();
+    press('KeyW');
+    expect(await next).toBe('KeyW');
+    expect(input.isActive('moveForward')).toBe(false);
+
+    const cancelled = input.captureNextKey();
+    press('Escape');
+    expect(await cancelled).toBeNull();
+  });
+
+  it('cancels a pending capture when another one starts', async () => {
+    const input = createHandler();
+    const first = input.captureNextKey();
+    const second = input.captureNextKey();
+    press('KeyQ');
+    expect(await first).toBeNull();
+    expect(await second).toBe('KeyQ');
+
+    // Keys act normally again once no capture is pending
+    press('KeyW');
+    expect(input.isActive('moveForward')).toBe(true);
+  });
+});
+
+describe('FPSController', () => {
+  const STEP = 1 / 60;
+  const STANDING_Y = 1.0; // capsule center resting on the ground's top at y = 0.1
+
+  let physics: { world: RAPIER.World; rigidBodies: Map<THREE.Object3D, RAPIER.RigidBody> };
+
+  beforeAll(() => RAPIER.init());
+  beforeEach(() => {
+    physics = { world: new RAPIER.World({ x: 0, y: -33.2, z: 0 }), rigidBodies: new Map() };
+    createGround(physics, 50);
+  });
+
+  function createController(movementMode: FPSMovementMode): FPSController {
+    const controller = new FPSController(physics, new THREE.PerspectiveCamera(), document.createElement('div'), {
+      input: createHandler(),
+      movementMode,
+      touchControls: false
+    });
+    controller.body.setTranslation({ x: 0, y: STANDING_Y, z: 0 }, true);
+    return controller;
+  }
+
+  function step(controller: FPSController, seconds: number): void {
+    for (let t = 0; t < seconds - 1e-6; t += STEP) {
+      controller.updateBeforePhysics(STEP);
+      physics.world.step();
+      controller.updateAfterPhysics();
+    }
+  }
+
+  function jump(): void {
+    press('Space');
+    release('Space');
+  }
+
+  // Height gained over the next few frames; a jump clears well over half a unit
+  function rise(controller: FPSController): number {
+    const before = controller.body.translation().y;
+    step(controller, 0.1);
+    return controller.body.translation().y - before;
+  }
+
+  function removeGround(): void {
+    physics.rigidBodies.forEach(body => physics.world.removeRigidBody(body));
+  }
+
+  it('scales stick input from the deadzone edge and applies the curve', () => {
+    const controller = createController('dynamic');
+    controller.setGamepadDeadzone(0.2);
+    const deadzone = (x: number, y: number, curve: number) => controller['applyDeadzone'](x, y, curve, new THREE.Vector2());
+
+    expect(deadzone(0.15, 0.1, 1).length()).toBe(0);
+    expect(deadzone(0.6, 0, 1).x).toBeCloseTo(0.5);
+    expect(deadzone(0.6, 0, 2).x).toBeCloseTo(0.25);
+    expect(deadzone(0, -1, 2).toArray()).toEqual([0, -1]);
+
+    const diagonal = deadzone(0.6, 0.8, 1);
+    expect(diagonal.length()).toBeCloseTo(1);
+    expect(diagonal.y / diagonal.x).toBeCloseTo(0.8 / 0.6);
+  });
+
+  describe.each(FPS_MOVEMENT_MODES)('in %s mode', mode => {
+    it('jumps from the ground', () => {
+      const controller = createController(mode);
+      step(controller, 0.2);
+      jump();
+      expect(rise(controller)).toBeGreaterThan(0.5);
+    });
+
+    it('still jumps just after walking off an edge', () => {
+      const controller = createController(mode);
+      step(controller, 0.2);
+      removeGround();
+      step(controller, 0.05);
+      jump();
+      expect(rise(controller)).toBeGreaterThan(0);
+    });
+
+    it('does not jump once the coyote time has passed', () => {
+      const controller = createController(mode);
+      step(controller, 0.2);
+      removeGround();
+      step(controller, 0.25);
+      jump();
+      expect(rise(controller)).toBeLessThan(0);
+    });
+
+    it('buffers a jump pressed just before landing', () => {
+      const controller = createController(mode);
+      controller.body.setTranslation({ x: 0, y: STANDING_Y + 0.2, z: 0 }, true);
+      step(controller, 0.05);
+      jump();
+      step(controller, 0.1);
+      expect(controller.body.translation().y).toBeGreaterThan(STANDING_Y + 0.2);
+    });
+
+    it('drops a jump pressed too long before landing', () => {
+      const controller = createController(mode);
+      controller.body.setTranslation({ x: 0, y: STANDING_Y + 5, z: 0 }, true);
+      jump();
+      step(controller, 0.7);
+      expect(controller.body.translation().y).toBeLessThan(STANDING_Y + 0.1);
+      expect(rise(controller)).toBeLessThanOrEqual(0.01);
+    });
+  });
+
+  it('carries vertical velocity across a movement mode switch', () => {
+    const controller = createController('dynamic');
+    step(controller, 0.2);
+    jump();
+    step(controller, STEP);
+    const vy = controller.body.linvel().y;
+    expect(vy).toBeGreaterThan(10);
+
+    controller.setMovementMode('kinematic');
+    expect(controller.body.isKinematic()).toBe(true);
+    expect(rise(controller)).toBeGreaterThan(0.5);
+
+    const kinematicVy = controller['verticalVelocity'];
+    controller.setMovementMode('dynamic');
+    expect(controller.body.isDynamic()).toBe(true);
+    expect(controller.body.linvel().y).toBeCloseTo(kinematicVy);
+    expect(kinematicVy).toBeGreaterThan(0);
+  });
+
+  it('only adds the touch overlay once touch controls are enabled', () => {
+    const controller = createController('dynamic');
+    const children = document.body.childElementCount;
+    expect(controller.isTouchControlsEnabled()).toBe(false);
+
+    controller.setTouchControlsEnabled(true);
+    expect(document.body.childElementCount).toBe(children + 1);
+    controller.setTouchControlsEnabled(false);
+    controller.setTouchControlsEnabled(true);
+    expect(document.body.childElementCount).toBe(children + 1);
+
+    controller.dispose();
+    expect(document.body.childElementCount).toBe(children);
+  });
+
+  it('stops reacting to input once disposed', () => {
+    const controller = createController('dynamic');
+    const removed = vi.spyOn(window, 'removeEventListener');
+    controller.dispose();
+    expect(removed.mock.calls.map(([type]) => type)).toEqual(['gamepadconnected', 'gamepaddisconnected']);
+    removed.mockRestore();
+
+    press('KeyF');
+    expect(controller.isFlyModeEnabled()).toBe(false);
+  });
+});
@@ -54,9 +54,233 @@ export function createGround(physics: PhysicsWorld, size: number = 1200) {
   return mesh;
 }
 
+export interface InputActionDefinition {
+  bindings: string[]; // KeyboardEvent.code values
+  context?: string; // only active while this context is, e.g. 'walk' or 'fly'; always active if unset
+  label?: string;
+}
+
+export interface InputBindingConflict {
+  code: string;
+  actions: string[];
+}
+
+export interface InputHandlerOptions {
+  actions?: Record<string, InputActionDefinition>;
+  storageKey?: string | null; // localStorage key for rebound keys, null disables persistence
+  target?: Document | HTMLElement;
+}
+
+export const DEFAULT_INPUT_ACTIONS: Record<string, InputActionDefinition> = {
+  moveForward: { bindings: ['KeyW'], label: 'Forward' },
+  moveBackward: { bindings: ['KeyS'], label: 'Backward' },
+  moveLeft: { bindings: ['KeyA'], label: 'Left' },
+  moveRight: { bindings: ['KeyD'], label: 'Right' },
+  sprint: { bindings: ['ShiftLeft', 'ShiftRight', 'ControlLeft', 'ControlRight'], context: 'walk', label: 'Sprint' },
+  jump: { bindings: ['Space'], context: 'walk', label: 'Jump' },
+  flyUp: { bindings: ['Space'], context: 'fly', label: 'Fly Up' },
+  flyDown: { bindings: ['ShiftLeft', 'ShiftRight'], context: 'fly', label: 'Fly Down' },
+  toggleFly: { bindings: ['KeyF'], label: 'Toggle Fly' },
+  toggleGui: { bindings: ['KeyP'], label: 'Toggle GUI' }
+};
+
+type InputActionListener = (pressed: boolean, event: KeyboardEvent) => void;
+
+// Typing into the GUI's text fields shouldn't move the player
+function isEditableTarget(target: EventTarget | null): boolean {
+  const element = target as HTMLElement | null;
+  return !!element && (element.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(element.tagName));
+}
+
+/**
+ * Maps keyboard codes to named actions. Each action has any number of bindings
+ * and an optional context, so one key can serve two actions that are never
+ * active together (Space jumps while walking and rises while flying). Rebound
+ * keys are saved to localStorage; keys shared by overlapping actions are
+ * reported by getConflicts().
+ */
 export class InputHandler {
+  private definitions: Record<string, InputActionDefinition>;
+  private bindings = new Map<string, string[]>();
+  private pressedCodes = new Set<string>();
+  private listeners = new Map<string, Set<InputActionListener>>();
+  private contexts = new Set<string>();
+  private storageKey: string | null;
+  private target: Document | HTMLElement;
+  private endCapture: ((code: string | null) => void) | null = null; // settles the pending captureNextKey
+
+  constructor(opts: InputHandlerOptions = {}) {
+    this.definitions = opts.actions ?? DEFAULT_INPUT_ACTIONS;
+    this.storageKey = opts.storageKey === undefined ? 'godrays.inputBindings' : opts.storageKey;
+    this.target = opts.target ?? document;
+
+    for (const [action, definition] of Object.entries(this.definitions)) this.bindings.set(action, [...definition.bindings]);
+    this.load();
+
+    this.target.addEventListener('keydown', this.onKeyDown as EventListener, { capture: true });
+    this.target.addEventListener('keyup', this.onKeyUp as EventListener, { capture: true });
+    window.addEventListener('blur', this.onBlur);
+  }
+
+  private onKeyDown = (event: KeyboardEvent): void => {
+    if (this.endCapture || isEditableTarget(event.target)) return;
+    const actions = this.getActionsForCode(event.code);
+    if (!actions.length) return;
+    event.preventDefault();
+    if (event.repeat) return;
+    // Actions already held through another key don't fire again
+    const wasActive = actions.map(action => this.isActive(action));
+    this.pressedCodes.add(event.code);
+    actions.forEach((action, i) => { if (!wasActive[i] && this.isActive(action)) this.emit(action, true, event); });
+  };
+
+  private onKeyUp = (event: KeyboardEvent): void => {
+    if (!this.pressedCodes.has(event.code)) return;
+    const actions = this.getActionsForCode(event.code);
+    const wasActive = actions.map(action => this.isActive(action));
+    this.pressedCodes.delete(event.code);
+    actions.forEach((action, i) => { if (wasActive[i] && !this.isActive(action)) this.emit(action, false, event); });
+  };
+
+  // Keys released while the window is unfocused never send keyup
+  private onBlur = (): void => {
+    this.pressedCodes.clear();
+  };
+
+  private emit(action: string, pressed: boolean, event: KeyboardEvent): void {
+    this.listeners.get(action)?.forEach(listener => listener(pressed, event));
+  }
+
+  private getActionsForCode(code: string): string[] {
+    const actions: string[] = [];
+    this.bindings.forEach((codes, action) => { if (codes.includes(code) && this.isContextActive(action)) actions.push(action); });
+    return actions;
+  }
+
+  private isContextActive(action: string): boolean {
+    const context = this.definitions[action]?.context;
+    return context === undefined || this.contexts.has(context);
+  }
+
+  public isActive(action: string): boolean {
+    if (!this.isContextActive(action)) return false;
+    return (this.bindings.get(action) ?? []).some(code => this.pressedCodes.has(code));
+  }
+
+  // Calls `listener` when the action becomes active or inactive; returns an unsubscribe function
+  public onAction(action: string, listener: InputActionListener): () => void {
+    if (!this.listeners.has(action)) this.listeners.set(action, new Set());
+    this.listeners.get(action)!.add(listener);
+    return () => this.listeners.get(action)?.delete(listener);
+  }
+
+  public setContext(context: string, active: boolean): void {
+    if (active) this.contexts.add(context);
+    else this.contexts.delete(context);
+  }
+
+  public getActions(): string[] { return [...this.bindings.keys()]; }
+  public getLabel(action: string): string { return this.definitions[action]?.label ?? action; }
+  public getBindings(action: string): string[] { return [...(this.bindings.get(action) ?? [])]; }
+
+  // Replaces the bindings of an action and returns any conflicts it now takes part in
+  public setBindings(action: string, codes: string[]): InputBindingConflict[] {
+    if (!this.bindings.has(action)) throw new Error(`Unknown input action "${action}"`);
+    this.bindings.set(action, [...new Set(codes)]);
+    this.pressedCodes.clear();
+    this.save();
+    return this.getConflicts().filter(conflict => conflict.actions.includes(action));
+  }
+
+  public addBinding(action: string, code: string): InputBindingConflict[] {
+    return this.setBindings(action, [...this.getBindings(action), code]);
+  }
+
+  public removeBinding(action: string, code: string): void {
+    this.setBindings(action, this.getBindings(action).filter(existing => existing !== code));
+  }
+
+  public resetBindings(): void {
+    for (const [action, definition] of Object.entries(this.definitions)) this.bindings.set(action, [...definition.bindings]);
+    this.pressedCodes.clear();
+    this.save();
+  }
+
+  // Keys bound to several actions that can be active at the same time
+  public getConflicts(): InputBindingConflict[] {
+    const byCode = new Map<string, string[]>();
+    this.bindings.forEach((codes, action) => codes.forEach(code => {
+      if (!byCode.has(code)) byCode.set(code, []);
+      byCode.get(code)!.push(action);
+    }));
+
+    const conflicts: InputBindingConflict[] = [];
+    byCode.forEach((actions, code) => {
+      const overlapping = actions.filter(action => actions.some(other => other !== action && this.contextsOverlap(action, other)));
+      if (overlapping.length) conflicts.push({ code, actions: overlapping });
+    });
+    return conflicts;
+  }
+
+  private contextsOverlap(a: string, b: string): boolean {
+    const contextA = this.definitions[a]?.context;
+    const contextB = this.definitions[b]?.context;
+    return contextA === undefined || contextB === undefined || contextA === contextB;
+  }
+
+  // Resolves with the code of the next key pressed, or null on Escape. A
+  // capture still waiting for its key resolves with null when another starts.
+  public captureNextKey(): Promise<string | null> {
+    this.endCapture?.(null);
+    return new Promise(resolve => {
+      const onKey = (event: KeyboardEvent) => {
+        event.preventDefault();
+        event.stopPropagation();
+        this.endCapture?.(event.code === 'Escape' ? null : event.code);
+      };
+      this.endCapture = code => {
+        this.target.removeEventListener('keydown', onKey as EventListener, { capture: true });
+        this.endCapture = null;
+        resolve(code);
+      };
+      this.target.addEventListener('keydown', onKey as EventListener, { capture: true });
+    });
+  }
+
+  private load(): void {
+    if (!this.storageKey) return;
+    try {
+      const saved = JSON.parse(localStorage.getItem(this.storageKey) ?? 'null');
+      if (!saved || typeof saved !== 'object') return;
+      for (const [action, codes] of Object.entries(saved)) {
+        if (this.bindings.has(action) && Array.isArray(codes) && codes.every(code => typeof code === 'string')) {
+          this.bindings.set(action, codes as string[]);
+        }
+      }
+    } catch {
+      // Unreadable storage keeps the defaults
+    }
+  }
+
+  private save(): void {
+    if (!this.storageKey) return;
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(Object.fromEntries(this.bindings)));
+    } catch {
+      // Storage may be full or disabled; bindings still apply for this session
+    }
+  }
+
   public update(): void {
-    // Minimal input handler - functionality moved to FPSController
+    // Event driven; kept for callers that poll once per frame
+  }
+
+  public dispose(): void {
+    this.endCapture?.(null);
+    this.target.removeEventListener('keydown', this.onKeyDown as EventListener, { capture: true });
+    this.target.removeEventListener('keyup', this.onKeyUp as EventListener, { capture: true });
+    window.removeEventListener('blur', this.onBlur);
+    this.listeners.clear();
   }
 }
 
@@ -72,8 +296,35 @@ export interface FPSControllerOptions {
   invertY?: boolean;
   flyModeInitially?: boolean;
   getGroundHeight?: (x: number, z: number) => number;
+  gamepadDeadzone?: number; // radial stick deadzone in [0, 1)
+  gamepadLookSensitivity?: number; // radians per second at full right-stick tilt
+  gamepadLookCurve?: number; // response exponent, > 1 gives finer aim near center
+  touchControls?: boolean; // on-screen joystick and buttons, defaults to on for touch devices
+  touchLookSensitivity?: number; // radians per pixel dragged on the right half
+  touchJoystickRadius?: number; // pixels of travel for full speed
+  input?: InputHandler; // shared action mapping, a default one is created otherwise
+  movementMode?: FPSMovementMode;
+  maxSlopeAngle?: number; // degrees, steeper ground can't be walked up in kinematic mode
+  autostepHeight?: number; // tallest step climbed without jumping in kinematic mode, 0 disables
+  snapToGroundDistance?: number; // how far the kinematic capsule is pulled down onto the floor, 0 disables
 }
 
+// 'dynamic' drives a physics capsule with velocities, 'kinematic' moves it
+// with Rapier's character controller
+export type FPSMovementMode = 'dynamic' | 'kinematic';
+
+export const FPS_MOVEMENT_MODES: FPSMovementMode[] = ['dynamic', 'kinematic'];
+
+// Gap the character controller keeps between the capsule and the scene
+const CHARACTER_CONTROLLER_OFFSET = 0.02;
+
+// Standard Gamepad API mapping
+const GAMEPAD_BUTTON_JUMP = 0; // A / cross, also flies up
+const GAMEPAD_BUTTON_DESCEND = 1; // B / circle, flies down
+const GAMEPAD_BUTTON_FLY = 3; // Y / triangle
+const GAMEPAD_BUTTON_SPRINT = 4; // left bumper
+const GAMEPAD_BUTTON_SPRINT_STICK = 10; // left stick press
+
 export class FPSController {
   private world: RAPIER.World;
   private camera: THREE.PerspectiveCamera;
@@ -98,28 +349,63 @@ export class FPSController {
   private groundedRayExtra: number = 0.2;
   private groundedTolerance: number = 0.08;
 
-  private moveForward = false;
-  private moveBackward = false;
-  private moveLeft = false;
-  private moveRight = false;
-  private isSprinting = false;
+  public readonly input: InputHandler;
   private jumpQueued = false;
   private pointerLocked = false;
 
   private isFlyMode = false;
-  private flyUp = false;
-  private flyDown = false;
   private gravityScale = 1;
 
+  // Gamepad: index of the active pad and its input as of the last poll
+  private gamepadIndex: number | null = null;
+  private gamepadDeadzone: number;
+  private gamepadLookSensitivity: number;
+  private gamepadLookCurve: number;
+  private gamepadMove = new THREE.Vector2();
+  private gamepadLook = new THREE.Vector2();
+  private gamepadSprint = false;
+  private gamepadFlyUp = false;
+  private gamepadFlyDown = false;
+  private gamepadButtons: boolean[] = [];
+
+  // Touch: joystick on the left half of the canvas, drag-to-look on the right
+  private touchEnabled: boolean;
+  private touchLookSensitivity: number;
+  private touchJoystickRadius: number;
+  private touchMove = new THREE.Vector2();
+  private touchLookDX = 0;
+  private touchLookDY = 0;
+  private touchFlyUp = false;
+  private touchFlyDown = false;
+  private joystickPointer: number | null = null;
+  private joystickOrigin = new THREE.Vector2();
+  private lookPointer: number | null = null;
+  private lookLast = new THREE.Vector2();
+  private touchOverlay?: HTMLDivElement; // created the first time touch controls are enabled
+  private joystickBase?: HTMLDivElement;
+  private joystickKnob?: HTMLDivElement;
+  private descendButton?: HTMLButtonElement;
+  private actionUnsubscribers: (() => void)[] = [];
+
   private accumDX = 0;
   private accumDY = 0;
   private emaDX = 0;
   private emaDY = 0;
 
   private debugMesh?: THREE.Mesh<THREE.CapsuleGeometry, THREE.MeshBasicMaterial>;
-  // Note: collider reference reserved for future sweeps
-  // private collider?: RAPIER.Collider;
-  // Jump quality: coyote time and buffered jump
+  private collider!: RAPIER.Collider;
+
+  // Kinematic mode: the controller is created on first use
+  private movementMode: FPSMovementMode;
+  private maxSlopeAngle: number;
+  private autostepHeight: number;
+  private snapToGroundDistance: number;
+  private characterController: RAPIER.KinematicCharacterController | null = null;
+  private verticalVelocity = 0;
+  private kinematicGrounded = false;
+  // Jump quality: coyote time and buffered jump, timed on the simulated clock
+  // so fixed-step playback jumps the same way every time
+  private clock = 0; // seconds, advanced by updateBeforePhysics
   private coyoteTime = 0.12; // seconds after leaving ground where jump still allowed
   private jumpBufferTime = 0.12; // seconds after pressing jump before landing to still perform jump
   private lastGroundedTime = -Infinity;
@@ -144,10 +430,25 @@ export class FPSController {
     this.rotationSmoothingTime = opts.rotationSmoothingTime ?? 0.0;
     this.invertY = opts.invertY ?? false;
     this.getGroundHeight = opts.getGroundHeight;
+    this.gamepadDeadzone = opts.gamepadDeadzone ?? 0.15;
+    this.gamepadLookSensitivity = opts.gamepadLookSensitivity ?? 3.0;
+    this.gamepadLookCurve = opts.gamepadLookCurve ?? 2.0;
+    this.touchEnabled = opts.touchControls ?? ('ontouchstart' in window || navigator.maxTouchPoints > 0);
+    this.touchLookSensitivity = opts.touchLookSensitivity ?? 0.005;
+    this.touchJoystickRadius = opts.touchJoystickRadius ?? 60;
+    this.movementMode = opts.movementMode ?? 'dynamic';
+    this.maxSlopeAngle = opts.maxSlopeAngle ?? 45;
+    this.autostepHeight = opts.autostepHeight ?? 0.4;
+    this.snapToGroundDistance = opts.snapToGroundDistance ?? 0.3;
 
     this.initPhysicsBody();
     this.initPointerLock();
-    this.initKeyboard();
+    this.input = opts.input ?? new InputHandler();
+    this.input.setContext('walk', true);
+    this.initActions();
+    this.initGamepad();
+    this.initTouch();
+    this.setTouchControlsEnabled(this.touchEnabled);
 
     this.yaw = this.camera.rotation.y;
     this.pitch = this.camera.rotation.x;
@@ -158,9 +459,12 @@ export class FPSController {
   }
 
   public updateBeforePhysics(delta: number): void {
-    const speed = this.isSprinting ? this.sprintSpeed : this.moveSpeed;
-    const inputX = (this.moveRight ? 1 : 0) - (this.moveLeft ? 1 : 0);
-    const inputZ = (this.moveForward ? 1 : 0) - (this.moveBackward ? 1 : 0);
+    this.pollGamepad();
+    const input = this.input;
+    const speed = (input.isActive('sprint') || this.gamepadSprint) ? this.sprintSpeed : this.moveSpeed;
+    // Keys count as full tilt; the stick scales speed by how far it is pushed
+    const inputX = (input.isActive('moveRight') ? 1 : 0) - (input.isActive('moveLeft') ? 1 : 0) + this.gamepadMove.x + this.touchMove.x;
+    const inputZ = (input.isActive('moveForward') ? 1 : 0) - (input.isActive('moveBackward') ? 1 : 0) + this.gamepadMove.y + this.touchMove.y;
 
     let vx = 0;
     let vz = 0;
@@ -174,16 +478,42 @@ export class FPSController {
       const dirX = rightX * inputX + forwardX * inputZ;
       const dirZ = rightZ * inputX + forwardZ * inputZ;
       const len = Math.hypot(dirX, dirZ) || 1.0;
-      vx = (dirX / len) * speed;
-      vz = (dirZ / len) * speed;
+      const magnitude = Math.min(1, Math.hypot(inputX, inputZ));
+      vx = (dirX / len) * speed * magnitude;
+      vz = (dirZ / len) * speed * magnitude;
     }
 
+    this.clock += delta;
+    const now = this.clock;
+    if (this.movementMode === 'kinematic') this.moveKinematic(vx, vz, speed, delta, now);
+    else this.moveDynamic(vx, vz, speed, now);
+
+    const dx = this.accumDX; const dy = this.accumDY; this.accumDX = 0; this.accumDY = 0;
+    const alpha = this.rotationSmoothingTime > 0 ? 1 - Math.exp(-delta / this.rotationSmoothingTime) : 1;
+    if (alpha >= 1) { this.emaDX = dx; this.emaDY = dy; } else { this.emaDX += alpha * (dx - this.emaDX); this.emaDY += alpha * (dy - this.emaDY); }
+    this.yaw -= this.emaDX * this.mouseSensitivity;
+    this.pitch += (this.invertY ? 1 : -1) * this.emaDY * this.mouseSensitivity;
+    // The right stick is a rate, not a delta like the mouse
+    this.yaw -= this.gamepadLook.x * this.gamepadLookSensitivity * delta;
+    this.pitch += (this.invertY ? 1 : -1) * this.gamepadLook.y * this.gamepadLookSensitivity * delta;
+    this.yaw -= this.touchLookDX * this.touchLookSensitivity;
+    this.pitch += (this.invertY ? 1 : -1) * this.touchLookDY * this.touchLookSensitivity;
+    this.touchLookDX = 0; this.touchLookDY = 0;
+    const pitchMin = -Math.PI / 2 + 0.0001, pitchMax = Math.PI / 2 - 0.0001;
+    this.pitch = Math.max(pitchMin, Math.min(pitchMax, this.pitch));
+    if (this.yaw > Math.PI) this.yaw -= Math.PI * 2; else if (this.yaw < -Math.PI) this.yaw += Math.PI * 2;
+
+    const euler = new THREE.Euler(this.pitch, this.yaw, 0, 'YXZ');
+    this.camera.quaternion.setFromEuler(euler);
+  }
+
+  // Dynamic mode: the capsule is a physics body driven by its velocity, with a
+  // raycast and a few heuristics on top to keep it steady on the ground
+  private moveDynamic(vx: number, vz: number, speed: number, now: number): void {
     const currentVel = this.body.linvel();
     let vy = currentVel.y;
-    const now = performance.now() * 0.001;
     if (this.isFlyMode) {
-      const flyInputY = (this.flyUp ? 1 : 0) - (this.flyDown ? 1 : 0);
-      vy = flyInputY * speed;
+      vy = this.flyInputY() * speed;
       this.jumpQueued = false;
     } else {
       // Robust grounded check via downward raycast (ignores self)
@@ -193,19 +523,14 @@ export class FPSController {
       const originY = center.y - bottomDistance + 0.05;
       const ray = new RAPIER.Ray({ x: center.x, y: originY, z: center.z }, { x: 0, y: -1, z: 0 });
       const maxToi = this.groundedRayExtra + 0.15;
-      let hit: any = undefined;
-      if ((this.world as any).castRayAndGetNormal) {
-        hit = (this.world as any).castRayAndGetNormal(ray, maxToi, true, undefined, undefined, (collider: RAPIER.Collider) => collider.parent() !== this.body);
-      } else {
-        hit = this.world.castRay(ray, maxToi, true, undefined, undefined, (collider: RAPIER.Collider) => collider.parent() !== this.body);
-      }
+      // Excludes the capsule's own body
+      const hit = this.world.castRayAndGetNormal(ray, maxToi, true, undefined, undefined, undefined, this.body);
       let grounded = false;
       let groundY: number | undefined = undefined;
       if (hit) {
-        const toi = (hit.toi !== undefined) ? hit.toi : hit;
-        const normal = hit.normal;
+        const toi = hit.timeOfImpact;
         const closeEnough = toi <= this.groundedTolerance + 0.05;
-        const upwardSurface = normal ? normal.y > 0.2 : true;
+        const upwardSurface = hit.normal.y > 0.2;
         grounded = closeEnough && upwardSurface;
         if (grounded) groundY = originY - toi;
       } else if (this.getGroundHeight) {
@@ -234,31 +559,78 @@ export class FPSController {
       if (vyAlmostZero) this.restFrames = Math.min(6, this.restFrames + 1); else this.restFrames = 0;
       const likelyGrounded = grounded || this.restFrames >= 3;
 
-      // Coyote time + buffered jump
-      const canCoyote = (now - this.lastGroundedTime) <= this.coyoteTime;
-      const jumpBuffered = (now - this.lastJumpPressTime) <= this.jumpBufferTime;
-      if ((this.jumpQueued || jumpBuffered) && (likelyGrounded || canCoyote)) {
-        vy = this.jumpSpeed;
-        this.jumpQueued = false;
-        this.lastJumpPressTime = -Infinity; // consume buffer
-      } else {
-        this.jumpQueued = false;
-      }
+      if (this.tryJump(likelyGrounded, now)) vy = this.jumpSpeed;
     }
 
     this.body.setLinvel({ x: vx, y: vy, z: vz }, true);
+  }
 
-    const dx = this.accumDX; const dy = this.accumDY; this.accumDX = 0; this.accumDY = 0;
-    const alpha = this.rotationSmoothingTime > 0 ? 1 - Math.exp(-delta / this.rotationSmoothingTime) : 1;
-    if (alpha >= 1) { this.emaDX = dx; this.emaDY = dy; } else { this.emaDX += alpha * (dx - this.emaDX); this.emaDY += alpha * (dy - this.emaDY); }
-    this.yaw -= this.emaDX * this.mouseSensitivity;
-    this.pitch += (this.invertY ? 1 : -1) * this.emaDY * this.mouseSensitivity;
-    const pitchMin = -Math.PI / 2 + 0.0001, pitchMax = Math.PI / 2 - 0.0001;
-    this.pitch = Math.max(pitchMin, Math.min(pitchMax, this.pitch));
-    if (this.yaw > Math.PI) this.yaw -= Math.PI * 2; else if (this.yaw < -Math.PI) this.yaw += Math.PI * 2;
+  // Kinematic mode: Rapier's character controller resolves the move against the
+  // scene, sliding along walls, climbing steps and slopes up to maxSlopeAngle
+  // and snapping down to the floor. The body ignores forces, so gravity and
+  // jumps are integrated here.
+  private moveKinematic(vx: number, vz: number, speed: number, delta: number, now: number): void {
+    const controller = this.getCharacterController();
+    if (this.isFlyMode) {
+      this.verticalVelocity = this.flyInputY() * speed;
+      this.jumpQueued = false;
+    } else {
+      if (this.kinematicGrounded) {
+        this.lastGroundedTime = now;
+        if (this.verticalVelocity < 0) this.verticalVelocity = 0;
+      }
+      if (this.tryJump(this.kinematicGrounded, now)) this.verticalVelocity = this.jumpSpeed;
+      // Applied on the ground too, so the controller keeps detecting it
+      this.verticalVelocity += this.world.gravity.y * this.gravityScale * delta;
+    }
 
-    const euler = new THREE.Euler(this.pitch, this.yaw, 0, 'YXZ');
-    this.camera.quaternion.setFromEuler(euler);
+    const desired = { x: vx * delta, y: this.verticalVelocity * delta, z: vz * delta };
+    controller.computeColliderMovement(this.collider, desired);
+    const movement = controller.computedMovement();
+    this.kinematicGrounded = !this.isFlyMode && controller.computedGrounded();
+    // Bumping into a ceiling ends the jump instead of sticking to it
+    if (this.verticalVelocity > 0 && movement.y < desired.y * 0.5) this.verticalVelocity = 0;
+
+    const t = this.body.translation();
+    this.body.setNextKinematicTranslation({ x: t.x + movement.x, y: t.y + movement.y, z: t.z + movement.z });
+  }
+
+  private flyInputY(): number {
+    const up = this.input.isActive('flyUp') || this.gamepadFlyUp || this.touchFlyUp;
+    const down = this.input.isActive('flyDown') || this.gamepadFlyDown || this.touchFlyDown;
+    return (up ? 1 : 0) - (down ? 1 : 0);
+  }
+
+  // Coyote time + buffered jump, shared by both movement modes
+  private tryJump(grounded: boolean, now: number): boolean {
+    const canCoyote = (now - this.lastGroundedTime) <= this.coyoteTime;
+    const jumpBuffered = (now - this.lastJumpPressTime) <= this.jumpBufferTime;
+    const jump = (this.jumpQueued || jumpBuffered) && (grounded || canCoyote);
+    if (jump) this.lastJumpPressTime = -Infinity; // consume buffer
+    this.jumpQueued = false;
+    return jump;
+  }
+
+  private getCharacterController(): RAPIER.KinematicCharacterController {
+    if (!this.characterController) {
+      this.characterController = this.world.createCharacterController(CHARACTER_CONTROLLER_OFFSET);
+      this.characterController.setSlideEnabled(true);
+      this.configureCharacterController();
+    }
+    return this.characterController;
+  }
+
+  private configureCharacterController(): void {
+    const controller = this.characterController;
+    if (!controller) return;
+    const slope = THREE.MathUtils.degToRad(this.maxSlopeAngle);
+    controller.setMaxSlopeClimbAngle(slope);
+    controller.setMinSlopeSlideAngle(slope);
+    // Steps must be at least a capsule radius deep, so thin ledges and railings aren't climbed
+    if (this.autostepHeight > 0) controller.enableAutostep(this.autostepHeight, this.radius, false);
+    else controller.disableAutostep();
+    if (this.snapToGroundDistance > 0) controller.enableSnapToGround(this.snapToGroundDistance);
+    else controller.disableSnapToGround();
   }
 
   public updateAfterPhysics(): void {
@@ -272,7 +644,7 @@ export class FPSController {
   }
 
   private initPhysicsBody(): void {
-    const rbDesc = RAPIER.RigidBodyDesc.dynamic()
+    const rbDesc = (this.movementMode === 'kinematic' ? RAPIER.RigidBodyDesc.kinematicPositionBased() : RAPIER.RigidBodyDesc.dynamic())
       .setTranslation(0, this.eyeHeight + (this.halfHeight + this.radius), 0)
       .setCanSleep(false)
       .setCcdEnabled(true)
@@ -282,71 +654,210 @@ export class FPSController {
       .setFriction(0.0)
       .setRestitution(0.0)
       .setActiveEvents(0);
-    this.world.createCollider(colDesc, this.body);
+    this.collider = this.world.createCollider(colDesc, this.body);
   }
 
   private initPointerLock(): void {
-    const onMouseMove = (event: MouseEvent) => {
-      if (!this.pointerLocked) return;
-      const movementX = event.movementX || 0;
-      const movementY = event.movementY || 0;
-      const MAX_DELTA = 2000;
-      this.accumDX += Math.max(-MAX_DELTA, Math.min(MAX_DELTA, movementX));
-      this.accumDY += Math.max(-MAX_DELTA, Math.min(MAX_DELTA, movementY));
-    };
-    const onPointerLockChange = () => {
-      this.pointerLocked = document.pointerLockElement === this.domElement;
-      if (this.pointerLocked) document.addEventListener('mousemove', onMouseMove, false);
-      else document.removeEventListener('mousemove', onMouseMove, false);
-    };
-    this.domElement.addEventListener('click', () => { this.domElement.requestPointerLock(); });
-    document.addEventListener('pointerlockchange', onPointerLockChange, false);
-  }
-
-  private initKeyboard(): void {
-    const onKeyDown = (event: KeyboardEvent) => {
-      switch (event.code) {
-        case 'KeyW': this.moveForward = true; break;
-        case 'KeyS': this.moveBackward = true; break;
-        case 'KeyA': this.moveLeft = true; break;
-        case 'KeyD': this.moveRight = true; break;
-        case 'ShiftLeft':
-        case 'ShiftRight':
-          if (this.isFlyMode) { this.flyDown = true; } else { this.isSprinting = true; }
-          break;
-        case 'ControlLeft':
-        case 'ControlRight':
-          if (!this.isFlyMode) { this.isSprinting = true; }
-          break;
-        case 'Space':
-          if (this.isFlyMode) { this.flyUp = true; }
-          else { this.jumpQueued = true; this.lastJumpPressTime = performance.now() * 0.001; }
-          event.preventDefault();
-          break;
-        case 'KeyF': this.setFlyMode(!this.isFlyMode); break;
-      }
-    };
-    const onKeyUp = (event: KeyboardEvent) => {
-      switch (event.code) {
-        case 'KeyW': this.moveForward = false; break;
-        case 'KeyS': this.moveBackward = false; break;
-        case 'KeyA': this.moveLeft = false; break;
-        case 'KeyD': this.moveRight = false; break;
-        case 'ShiftLeft':
-        case 'ShiftRight':
-          if (this.isFlyMode) { this.flyDown = false; } else { this.isSprinting = false; }
-          break;
-        case 'ControlLeft':
-        case 'ControlRight':
-          if (!this.isFlyMode) { this.isSprinting = false; }
-          break;
-        case 'Space':
-          if (this.isFlyMode) { this.flyUp = false; }
-          break;
-      }
+    this.domElement.addEventListener('click', this.onClick);
+    document.addEventListener('pointerlockchange', this.onPointerLockChange, false);
+  }
+
+  private onMouseMove = (event: MouseEvent): void => {
+    if (!this.pointerLocked) return;
+    const movementX = event.movementX || 0;
+    const movementY = event.movementY || 0;
+    const MAX_DELTA = 2000;
+    this.accumDX += Math.max(-MAX_DELTA, Math.min(MAX_DELTA, movementX));
+    this.accumDY += Math.max(-MAX_DELTA, Math.min(MAX_DELTA, movementY));
+  };
+
+  private onPointerLockChange = (): void => {
+    this.pointerLocked = document.pointerLockElement === this.domElement;
+    if (this.pointerLocked) document.addEventListener('mousemove', this.onMouseMove, false);
+    else document.removeEventListener('mousemove', this.onMouseMove, false);
+  };
+
+  private onClick = (event: MouseEvent): void => {
+    // Taps drive the touch controls; pointer lock is for mice only
+    if ((event as PointerEvent).pointerType === 'touch') return;
+    this.domElement.requestPointerLock();
+  };
+
+  // Held actions are polled in updateBeforePhysics; these fire once per press
+  private initActions(): void {
+    this.actionUnsubscribers.push(
+      this.input.onAction('jump', (pressed) => {
+        if (pressed) this.queueJump();
+      }),
+      this.input.onAction('toggleFly', (pressed) => { if (pressed) this.setFlyMode(!this.isFlyMode); })
+    );
+  }
+
+  private queueJump(): void {
+    this.jumpQueued = true;
+    this.lastJumpPressTime = this.clock;
+  }
+
+  private initGamepad(): void {
+    window.addEventListener('gamepadconnected', this.onGamepadConnected);
+    window.addEventListener('gamepaddisconnected', this.onGamepadDisconnected);
+  }
+
+  private onGamepadConnected = (event: GamepadEvent): void => {
+    if (this.gamepadIndex === null) this.gamepadIndex = event.gamepad.index;
+  };
+
+  private onGamepadDisconnected = (event: GamepadEvent): void => {
+    if (event.gamepad.index !== this.gamepadIndex) return;
+    this.gamepadIndex = null;
+    this.resetGamepadInput();
+  };
+
+  private resetGamepadInput(): void {
+    this.gamepadMove.set(0, 0);
+    this.gamepadLook.set(0, 0);
+    this.gamepadSprint = false;
+    this.gamepadFlyUp = false;
+    this.gamepadFlyDown = false;
+    this.gamepadButtons = [];
+  }
+
+  // Radial deadzone, rescaled so output starts at 0 at the deadzone edge
+  private applyDeadzone(x: number, y: number, curve: number, target: THREE.Vector2): THREE.Vector2 {
+    const magnitude = Math.hypot(x, y);
+    if (magnitude <= this.gamepadDeadzone) return target.set(0, 0);
+    const scaled = Math.min(1, (magnitude - this.gamepadDeadzone) / (1 - this.gamepadDeadzone));
+    return target.set(x, y).multiplyScalar(Math.pow(scaled, curve) / magnitude);
+  }
+
+  private pollGamepad(): void {
+    const pads = navigator.getGamepads ? navigator.getGamepads() : [];
+    // Some browsers only announce pads already connected at load once polled
+    if (this.gamepadIndex === null) this.gamepadIndex = pads.find(pad => pad?.connected)?.index ?? null;
+    const pad = this.gamepadIndex !== null ? pads[this.gamepadIndex] : null;
+    if (!pad) return;
+
+    // Stick up is negative on the Y axis
+    this.applyDeadzone(pad.axes[0] ?? 0, -(pad.axes[1] ?? 0), 1, this.gamepadMove);
+    this.applyDeadzone(pad.axes[2] ?? 0, pad.axes[3] ?? 0, this.gamepadLookCurve, this.gamepadLook);
+
+    const held = (button: number) => pad.buttons[button]?.pressed ?? false;
+    const pressed = (button: number) => held(button) && !this.gamepadButtons[button];
+
+    this.gamepadSprint = !this.isFlyMode && (held(GAMEPAD_BUTTON_SPRINT) || held(GAMEPAD_BUTTON_SPRINT_STICK));
+    this.gamepadFlyUp = this.isFlyMode && held(GAMEPAD_BUTTON_JUMP);
+    this.gamepadFlyDown = this.isFlyMode && held(GAMEPAD_BUTTON_DESCEND);
+    if (!this.isFlyMode && pressed(GAMEPAD_BUTTON_JUMP)) this.queueJump();
+    if (pressed(GAMEPAD_BUTTON_FLY)) this.setFlyMode(!this.isFlyMode);
+
+    this.gamepadButtons = pad.buttons.map(button => button.pressed);
+  }
+
+  private initTouch(): void {
+    this.domElement.addEventListener('pointerdown', this.onTouchPointerDown);
+    this.domElement.addEventListener('pointermove', this.onTouchPointerMove);
+    this.domElement.addEventListener('pointerup', this.onTouchPointerUp);
+    this.domElement.addEventListener('pointercancel', this.onTouchPointerUp);
+  }
+
+  private createTouchOverlay(): HTMLDivElement {
+    // Overlay sits below the lil-gui panel (z-index 1000) and only its buttons
+    // take pointer events, so GUI touches never reach the controller
+    const overlay = document.createElement('div');
+    overlay.style.cssText = 'position:fixed;inset:0;pointer-events:none;z-index:500;user-select:none;-webkit-user-select:none';
+    const base = document.createElement('div');
+    base.style.cssText = 'position:fixed;display:none;border-radius:50%;border:2px solid rgba(255,255,255,0.5);background:rgba(255,255,255,0.1)';
+    const knob = document.createElement('div');
+    knob.style.cssText = 'position:absolute;width:40%;height:40%;left:30%;top:30%;border-radius:50%;background:rgba(255,255,255,0.6)';
+    base.appendChild(knob);
+    overlay.appendChild(base);
+
+    const makeButton = (label: string, right: number, onPress: (down: boolean) => void) => {
+      const button = document.createElement('button');
+      button.textContent = label;
+      button.style.cssText = `position:fixed;bottom:24px;right:${right}px;width:64px;height:64px;border-radius:50%;` +
+        'border:2px solid rgba(255,255,255,0.6);background:rgba(0,0,0,0.35);color:#fff;font:14px Arial,sans-serif;' +
+        'pointer-events:auto;touch-action:none';
+      button.addEventListener('pointerdown', (event) => { event.preventDefault(); event.stopPropagation(); onPress(true); });
+      for (const type of ['pointerup', 'pointercancel', 'pointerleave']) button.addEventListener(type, () => onPress(false));
+      overlay.appendChild(button);
+      return button;
     };
-    document.addEventListener('keydown', onKeyDown, { capture: true } as any);
-    document.addEventListener('keyup', onKeyUp, { capture: true } as any);
+    makeButton('Jump', 24, (down) => {
+      if (this.isFlyMode) { this.touchFlyUp = down; return; }
+      if (down) this.queueJump();
+    });
+    makeButton('Fly', 100, (down) => { if (down) this.setFlyMode(!this.isFlyMode); });
+    this.descendButton = makeButton('Down', 176, (down) => { this.touchFlyDown = down && this.isFlyMode; });
+    this.descendButton.style.display = this.isFlyMode ? 'block' : 'none'; // shown in fly mode
+
+    this.joystickBase = base;
+    this.joystickKnob = knob;
+    document.body.appendChild(overlay);
+    return overlay;
+  }
+
+  private onTouchPointerDown = (event: PointerEvent): void => {
+    if (!this.touchEnabled || event.pointerType !== 'touch') return;
+    const rect = this.domElement.getBoundingClientRect();
+    if (event.clientX < rect.left + rect.width / 2) {
+      if (this.joystickPointer !== null) return;
+      this.joystickPointer = event.pointerId;
+      this.joystickOrigin.set(event.clientX, event.clientY);
+      const base = this.joystickBase!;
+      const size = this.touchJoystickRadius * 2;
+      base.style.width = base.style.height = `${size}px`;
+      base.style.left = `${event.clientX - this.touchJoystickRadius}px`;
+      base.style.top = `${event.clientY - this.touchJoystickRadius}px`;
+      base.style.display = 'block';
+    } else {
+      if (this.lookPointer !== null) return;
+      this.lookPointer = event.pointerId;
+      this.lookLast.set(event.clientX, event.clientY);
+    }
+    this.domElement.setPointerCapture(event.pointerId);
+    event.preventDefault();
+  };
+
+  private onTouchPointerMove = (event: PointerEvent): void => {
+    if (event.pointerId === this.joystickPointer) {
+      const r = this.touchJoystickRadius;
+      const offset = new THREE.Vector2(event.clientX, event.clientY).sub(this.joystickOrigin);
+      if (offset.length() > r) offset.setLength(r);
+      // Screen Y grows downwards, forward is up
+      this.touchMove.set(offset.x / r, -offset.y / r);
+      this.joystickKnob!.style.transform = `translate(${offset.x}px, ${offset.y}px)`;
+    } else if (event.pointerId === this.lookPointer) {
+      this.touchLookDX += event.clientX - this.lookLast.x;
+      this.touchLookDY += event.clientY - this.lookLast.y;
+      this.lookLast.set(event.clientX, event.clientY);
+    }
+  };
+
+  private onTouchPointerUp = (event: PointerEvent): void => {
+    if (event.pointerId === this.joystickPointer) this.releaseJoystick();
+    else if (event.pointerId === this.lookPointer) this.lookPointer = null;
+  };
+
+  private releaseJoystick(): void {
+    this.joystickPointer = null;
+    this.touchMove.set(0, 0);
+    if (this.joystickBase) this.joystickBase.style.display = 'none';
+    if (this.joystickKnob) this.joystickKnob.style.transform = '';
+  }
+
+  public setTouchControlsEnabled(enabled: boolean): void {
+    this.touchEnabled = enabled;
+    if (enabled && !this.touchOverlay) this.touchOverlay = this.createTouchOverlay();
+    if (this.touchOverlay) this.touchOverlay.style.display = enabled ? 'block' : 'none';
+    // Without touch controls the browser keeps its own touch gestures
+    this.domElement.style.touchAction = enabled ? 'none' : '';
+    if (!enabled) {
+      this.releaseJoystick();
+      this.lookPointer = null;
+      this.touchFlyUp = false;
+      this.touchFlyDown = false;
+    }
   }
 
   public setFlyMode(enabled: boolean): void {
@@ -355,9 +866,13 @@ export class FPSController {
     this.body.setGravityScale(enabled ? 0 : this.gravityScale, true);
     const v = this.body.linvel();
     this.body.setLinvel({ x: v.x, y: 0, z: v.z }, true);
+    this.verticalVelocity = 0;
     this.jumpQueued = false;
-    this.flyUp = false;
-    this.flyDown = false;
+    this.input.setContext('walk', !enabled);
+    this.input.setContext('fly', enabled);
+    this.touchFlyUp = false;
+    this.touchFlyDown = false;
+    if (this.descendButton) this.descendButton.style.display = enabled ? 'block' : 'none';
   }
 
   public enableDebugMesh(scene: THREE.Scene, visible: boolean = true): void {
@@ -377,6 +892,30 @@ export class FPSController {
     this.debugMesh = mesh;
   }
 
+  // Removes the touch overlay and every listener the controller added to the
+  // page. The physics body stays in the world and the input handler stays usable.
+  public dispose(): void {
+    if (document.pointerLockElement === this.domElement) document.exitPointerLock();
+    this.pointerLocked = false;
+    this.domElement.removeEventListener('click', this.onClick);
+    document.removeEventListener('pointerlockchange', this.onPointerLockChange, false);
+    document.removeEventListener('mousemove', this.onMouseMove, false);
+    window.removeEventListener('gamepadconnected', this.onGamepadConnected);
+    window.removeEventListener('gamepaddisconnected', this.onGamepadDisconnected);
+    this.domElement.removeEventListener('pointerdown', this.onTouchPointerDown);
+    this.domElement.removeEventListener('pointermove', this.onTouchPointerMove);
+    this.domElement.removeEventListener('pointerup', this.onTouchPointerUp);
+    this.domElement.removeEventListener('pointercancel', this.onTouchPointerUp);
+    this.domElement.style.touchAction = '';
+    this.actionUnsubscribers.forEach(unsubscribe => unsubscribe());
+    this.actionUnsubscribers = [];
+
+    this.touchEnabled = false;
+    this.touchOverlay?.remove();
+    this.touchOverlay = this.joystickBase = this.joystickKnob = undefined;
+    this.descendButton = undefined;
+  }
+
   // Exposed controls for GUI
   public setMoveSpeed(value: number): void { this.moveSpeed = Math.max(0, value); }
   public setSprintSpeed(value: number): void { this.sprintSpeed = Math.max(0, value); }
@@ -393,10 +932,51 @@ export class FPSController {
   public setGroundRayExtraDistance(value: number): void { this.groundedRayExtra = Math.max(0, value); }
   public getGroundedTolerance(): number { return this.groundedTolerance; }
   public setGroundedTolerance(value: number): void { this.groundedTolerance = Math.max(0, value); }
+  public isTouchControlsEnabled(): boolean { return this.touchEnabled; }
+  public getTouchLookSensitivity(): number { return this.touchLookSensitivity; }
+  public setTouchLookSensitivity(value: number): void { this.touchLookSensitivity = Math.max(0, value); }
+  public getTouchJoystickRadius(): number { return this.touchJoystickRadius; }
+  public setTouchJoystickRadius(value: number): void { this.touchJoystickRadius = Math.max(10, value); }
+  public isGamepadConnected(): boolean { return this.gamepadIndex !== null; }
+  public getGamepadDeadzone(): number { return this.gamepadDeadzone; }
+  public setGamepadDeadzone(value: number): void { this.gamepadDeadzone = Math.min(0.95, Math.max(0, value)); }
+  public getGamepadLookSensitivity(): number { return this.gamepadLookSensitivity; }
+  public setGamepadLookSensitivity(value: number): void { this.gamepadLookSensitivity = Math.max(0, value); }
+  public getGamepadLookCurve(): number { return this.gamepadLookCurve; }
+  public setGamepadLookCurve(value: number): void { this.gamepadLookCurve = Math.max(0.1, value); }
   public setBodyGravityScale(value: number): void {
     this.gravityScale = Math.max(0, value);
     if (!this.isFlyMode) this.body.setGravityScale(this.gravityScale, true);
   }
+  public getMovementMode(): FPSMovementMode { return this.movementMode; }
+  public setMovementMode(mode: FPSMovementMode): void {
+    if (this.movementMode === mode) return;
+    this.movementMode = mode;
+    // Vertical speed carries over, so switching mid-jump doesn't stall
+    if (mode === 'kinematic') {
+      this.verticalVelocity = this.isFlyMode ? 0 : this.body.linvel().y;
+      this.kinematicGrounded = false;
+      this.body.setBodyType(RAPIER.RigidBodyType.KinematicPositionBased, true);
+    } else {
+      this.body.setBodyType(RAPIER.RigidBodyType.Dynamic, true);
+      this.body.setGravityScale(this.isFlyMode ? 0 : this.gravityScale, true);
+      this.body.setLinvel({ x: 0, y: this.verticalVelocity, z: 0 }, true);
+      this.restFrames = 0;
+    }
+  }
+  public getMaxSlopeAngle(): number { return this.maxSlopeAngle; }
+  public setMaxSlopeAngle(degrees: number): void {
+    this.maxSlopeAngle = THREE.MathUtils.clamp(degrees, 0, 89);
+    this.configureCharacterController();
+  }
+  public getAutostepHeight(): number { return this.autostepHeight; }
+  public setAutostepHeight(value: number): void {
+    this.autostepHeight = Math.max(0, value);
+    this.configureCharacterController();
+  }
+  public getSnapToGroundDistance(): number { return this.snapToGroundDistance; }
+  public setSnapToGroundDistance(value: number): void {
+    this.snapToGroundDistance = Math.max(0, value);
+    this.configureCharacterController();
+  }
 }
-
-